@@ -7,10 +7,22 @@
 
 const fs = require('fs');
 const path = require('path');
+const crypto = require('crypto');
 
 const STATIC_DIR = 'src/static';
 const OUTPUT_FILE = 'src/lib/static.ts';
 
+// Third-party browser libraries, copied from node_modules and served under /vendor/
+const VENDOR_ASSETS = {
+    '/vendor/marked.js': 'node_modules/marked/lib/marked.umd.js',
+    '/vendor/purify.js': 'node_modules/dompurify/dist/purify.min.js',
+    '/vendor/highlight.js': 'node_modules/@highlightjs/cdn-assets/highlight.min.js',
+    '/vendor/highlight.css': 'node_modules/@highlightjs/cdn-assets/styles/github.min.css',
+    // Loaded on demand by the chat page when a reply contains math or a diagram
+    '/vendor/katex.js': 'node_modules/katex/dist/katex.min.js',
+    '/vendor/mermaid.js': 'node_modules/mermaid/dist/mermaid.min.js',
+};
+
 function readStaticAssets() {
     const assets = {};
     
@@ -36,7 +48,36 @@ function readStaticAssets() {
     }
 }
 
-function generateStaticModule(assets) {
+function readVendorAssets() {
+    const assets = {};
+
+    for (const [routePath, filePath] of Object.entries(VENDOR_ASSETS)) {
+        if (!fs.existsSync(filePath)) {
+            console.error(`❌ Missing vendor asset ${filePath} - run npm install`);
+            process.exit(1);
+        }
+        // Source maps are not embedded, so drop the references to them
+        assets[routePath] = fs.readFileSync(filePath, 'utf8')
+            .replace(/^\/[/*]# sourceMappingURL=.*$/gm, '');
+    }
+
+    console.log(`✅ Embedded ${Object.keys(assets).length} vendor assets`);
+    return assets;
+}
+
+// Only what follows from the checked-in sources, so rebuilding never changes
+// the generated file; the commit is passed to `wrangler deploy` as BUILD_COMMIT
+function readBuildInfo(assets) {
+    const { version } = JSON.parse(fs.readFileSync('package.json', 'utf8'));
+    // Hash of every embedded asset, so two builds can be compared without a commit
+    const hash = crypto.createHash('sha256');
+    for (const routePath of Object.keys(assets).sort()) {
+        hash.update(routePath).update('\0').update(assets[routePath]).update('\0');
+    }
+    return { version, assetsHash: hash.digest('hex').slice(0, 16) };
+}
+
+function generateStaticModule(assets, buildInfo) {
     const assetEntries = Object.entries(assets)
         .map(([path, content]) => {
             // Escape the content for TypeScript string literal
@@ -59,6 +100,8 @@ ${assetEntries}
 };
 
 export const assetPaths = Object.keys(staticAssets);
+
+export const buildInfo: { version: string; assetsHash: string } = ${JSON.stringify(buildInfo)};
 `;
 
     return moduleContent;
@@ -83,8 +126,8 @@ function writeStaticModule(content) {
 function main() {
     console.log('🔨 Building static assets for Cloudflare Worker...');
     
-    const assets = readStaticAssets();
-    const moduleContent = generateStaticModule(assets);
+    const assets = { ...readStaticAssets(), ...readVendorAssets() };
+    const moduleContent = generateStaticModule(assets, readBuildInfo(assets));
     writeStaticModule(moduleContent);
     
     console.log('✅ Build complete!');
@@ -0,0 +1,91 @@
+#!/usr/bin/env node
+
+/**
+ * Generate an AUTH_USERS password hash for the worker's login page
+ * Usage: npm run hash-password (prompts), or pipe the password on stdin
+ * The password is never taken from the command line, where it would end up
+ * in shell history and process listings.
+ */
+
+const crypto = require('crypto');
+
+// Workers caps PBKDF2 at 100000 iterations
+const ITERATIONS = 100000;
+
+function readStdin() {
+    return new Promise((resolve, reject) => {
+        let data = '';
+        process.stdin.setEncoding('utf8');
+        process.stdin.on('data', chunk => { data += chunk; });
+        process.stdin.on('end', () => resolve(data.replace(/\r?\n$/, '')));
+        process.stdin.on('error', reject);
+    });
+}
+
+function prompt(question) {
+    return new Promise(resolve => {
+        process.stderr.write(question);
+        process.stdin.setRawMode(true);
+        process.stdin.setEncoding('utf8');
+        process.stdin.resume();
+
+        let value = '';
+        const onData = chunk => {
+            for (const char of chunk) {
+                if (char === '\u0003') {
+                    // Ctrl+C
+                    process.stdin.setRawMode(false);
+                    process.stderr.write('\n');
+                    process.exit(130);
+                } else if (char === '\r' || char === '\n') {
+                    process.stdin.setRawMode(false);
+                    process.stdin.pause();
+                    process.stdin.off('data', onData);
+                    process.stderr.write('\n');
+                    resolve(value);
+                    return;
+                } else if (char === '\u007f' || char === '\b') {
+                    value = value.slice(0, -1);
+                } else {
+                    value += char;
+                }
+            }
+        };
+        process.stdin.on('data', onData);
+    });
+}
+
+async function readPassword() {
+    if (!process.stdin.isTTY) {
+        return readStdin();
+    }
+
+    const password = await prompt('Password: ');
+    if (password && await prompt('Confirm password: ') !== password) {
+        console.error('❌ Passwords do not match');
+        process.exit(1);
+    }
+    return password;
+}
+
+async function main() {
+    if (process.argv.length > 2) {
+        console.error('❌ Pass the password on stdin or at the prompt, not as an argument');
+        process.exit(1);
+    }
+
+    const password = await readPassword();
+    if (!password) {
+        console.error('❌ Usage: npm run hash-password (or: printf %s "$PASSWORD" | npm run --silent hash-password)');
+        process.exit(1);
+    }
+
+    const salt = crypto.randomBytes(16);
+    const hash = crypto.pbkdf2Sync(password, salt, ITERATIONS, 32, 'sha256');
+
+    console.log(`pbkdf2:${ITERATIONS}:${salt.toString('hex')}:${hash.toString('hex')}`);
+}
+
+if (require.main === module) {
+    main();
+}
@@ -4,443 +4,349 @@
  */
 
 import { staticAssets } from './lib/static';
+import { authenticate, hasAdminToken, isAdmin, type Identity } from './lib/auth';
+import { ApiError } from './lib/errors';
+import { apiErrorResponse, errorResponse, isCrossSiteRequest, jsonResponse } from './lib/http';
+import { getReadiness } from './lib/health';
+import { createLogger, errorFields, requestIdFor, withRequestId, type Logger } from './lib/log';
+import type { RateLimiter } from './lib/ratelimit';
+import type { TemplateStore } from './lib/templates';
+import { handleAdminPage, handleAdminRequest } from './routes/admin';
+import { handleLogin, handleLogout, handleMe } from './routes/auth';
+import { handleAttachmentsRequest } from './routes/attachments';
+import { handleChatRequest } from './routes/chat';
+import { handleConversationsRequest } from './routes/conversations';
+import { handleModelsRequest } from './routes/models';
+import { handlePresetsRequest } from './routes/presets';
+import { handleQuotaRequest } from './routes/quota';
+import { handleSearchRequest } from './routes/search';
+import { handleSharedPage, handleSharesRequest } from './routes/shares';
+import { handleTemplatesRequest } from './routes/templates';
+
+export { RateLimiter } from './lib/ratelimit';
+export { TemplateStore } from './lib/templates';
 
 export interface Env {
+  // Per-request usage events for the admin dashboard
   ANALYTICS?: KVNamespace;
-  AI_WORKER: Fetcher;
+  CONVERSATIONS?: KVNamespace;
+  // Uploaded chat attachments; falls back to CONVERSATIONS when unbound
+  ATTACHMENTS?: R2Bucket;
+  AI_WORKER?: Fetcher;
+  AI?: Ai<Record<string, any>>;
+  ENVIRONMENT?: string;
+  API_VERSION?: string;
+  // Commit the deployment was built from, set by `npm run deploy`
+  BUILD_COMMIT?: string;
+
+  // Upstream provider selection: ai-worker | openai | workers-ai | mock
+  AI_PROVIDER?: string;
+  AI_WORKER_URL?: string;
+  CLOUDFLARE_AI_WORKER_API_TOKEN?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_MODEL?: string;
+  WORKERS_AI_MODEL?: string;
+
+  // Upstream health probes: HEALTH_PROBE is "chat" (default, a real prompt) or
+  // "light" (a cheap endpoint); results are reused for HEALTH_CACHE_SECONDS
+  HEALTH_PROBE?: string;
+  HEALTH_CACHE_SECONDS?: string;
+  AI_WORKER_HEALTH_PATH?: string;
+
+  // Upstream resilience: overall and between-chunk timeouts, and retries of
+  // failures that are safe to repeat
+  UPSTREAM_TIMEOUT_SECONDS?: string;
+  UPSTREAM_IDLE_TIMEOUT_SECONDS?: string;
+  UPSTREAM_RETRIES?: string;
+
+  // Model allowlist: JSON array of {id, name, contextLimit, supportsReasoning, supportsVision?, supportsTools?}
+  MODELS?: unknown;
+
+  // Team-wide instruction presets: JSON array of {id, name, instructions}
+  INSTRUCTION_PRESETS?: unknown;
+
+  // Hosts the fetch_url tool may read, comma-separated (`*.example.com` for subdomains)
+  TOOL_FETCH_ALLOWLIST?: string;
+
+  // Logging: LOG_LEVEL is debug | info (default) | warn | error; LOG_BODIES = "true"
+  // writes header values and message text unredacted (development only)
+  LOG_LEVEL?: string;
+  LOG_BODIES?: string;
+
+  // Authentication: AUTH_MODE is "required" (default) or "off"
+  AUTH_MODE?: string;
+  SESSION_SECRET?: string;
+  SESSION_TTL_HOURS?: string;
+  AUTH_USERS?: string;
+  ACCESS_TEAM_DOMAIN?: string;
+  ACCESS_AUD?: string;
+  // User ids allowed into /admin, comma-separated; ADMIN_TOKEN is a bearer
+  // token for scripts calling /admin/api
+  ADMIN_USERS?: string;
+  ADMIN_TOKEN?: string;
+
+  // Rate limiting and daily quotas
+  RATE_LIMITER?: DurableObjectNamespace<RateLimiter>;
+  RATE_LIMIT_PER_MINUTE?: string;
+  DAILY_MESSAGE_LIMIT?: string;
+  DAILY_TOKEN_LIMIT?: string;
+
+  // Team prompt templates
+  TEMPLATES?: DurableObjectNamespace<TemplateStore>;
 }
 
+// Methods that change nothing, and so may come from any site
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    const url = new URL(request.url);
-    const path = url.pathname;
-
-    // Debug endpoint to check environment access
-    if (path === '/debug' && request.method === 'GET') {
-      return new Response(JSON.stringify({
-        domain: url.hostname,
-        allEnvKeys: Object.keys(env || {}),
-        timestamp: new Date().toISOString()
-      }), {
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      });
-    }
-
-    // Health check endpoint that tests AI service from backend
-    if (path === '/healthcheck' && request.method === 'GET') {
-      try {
-        console.log('🔍 Healthcheck: Testing AI service from backend...');
-        
-        // Use CF connecting IP to detect local dev (wrangler dev shows 127.0.0.1)
-        const cfConnectingIp = request.headers.get('cf-connecting-ip');
-        const isLocalDev = cfConnectingIp === '127.0.0.1';
-                          
-        console.log('🔍 Healthcheck: Environment detection:', {
-          'env.ENVIRONMENT': env.ENVIRONMENT,
-          'cf-connecting-ip': cfConnectingIp,
-          'url.hostname': url.hostname,
-          'request.url': request.url,
-          isLocalDev
-        });
-        
-        let testResponse;
-        
-        if (isLocalDev) {
-          // In local dev, use direct fetch to external AI worker
-          console.log('🔍 Healthcheck: Using direct fetch (local dev mode)');
-          testResponse = await fetch('https://ai-worker.emily-cogsdill.workers.dev/api/v1/chat', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              input: "healthcheck test"
-            }),
-          });
-        } else {
-          // In production, use service binding
-          console.log('🔍 Healthcheck: Using service binding (production mode)');
-          const testRequest = new Request('https://fake-host/api/v1/chat', {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-              input: "healthcheck test"
-            }),
-          });
-          
-          testResponse = await env.AI_WORKER.fetch(testRequest);
-        }
-
-        console.log('🔍 Healthcheck: AI service response:', {
-          status: testResponse.status,
-          ok: testResponse.ok,
-          headers: Object.fromEntries(testResponse.headers.entries())
-        });
-
-        const responseText = await testResponse.text();
-        console.log('🔍 Healthcheck: AI response body:', responseText);
-
-        return new Response(JSON.stringify({
-          aiServiceStatus: testResponse.ok ? 'HEALTHY' : 'ERROR',
-          aiServiceStatusCode: testResponse.status,
-          aiResponseBody: responseText,
-          timestamp: new Date().toISOString(),
-          backendCanReachAI: true
-        }), {
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        });
-
-      } catch (error) {
-        console.error('🚨 Healthcheck: Failed to reach AI service:', error);
-        return new Response(JSON.stringify({
-          aiServiceStatus: 'UNREACHABLE',
-          error: error.message,
-          timestamp: new Date().toISOString(),
-          backendCanReachAI: false
-        }), {
-          status: 500,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        });
-      }
-    }
-
-    // Handle CORS preflight requests
-    if (request.method === 'OPTIONS') {
-      return new Response(null, {
-        status: 204,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
-          'Access-Control-Allow-Headers': 'Content-Type',
-          'Access-Control-Max-Age': '86400',
-        },
-      });
-    }
+    const started = Date.now();
+    const log = createLogger(env, requestIdFor(request));
 
-    // Handle chat API requests
-    if (path === '/api/chat' && request.method === 'POST') {
-      return handleChatRequest(request, env);
-    }
-
-    // Serve static assets
+    let response: Response;
     try {
-      const asset = getStaticAsset(path);
-      if (asset) {
-        return new Response(asset.content, {
-          headers: {
-            'Content-Type': asset.contentType,
-            'Cache-Control': 'public, max-age=86400',
-            'Access-Control-Allow-Origin': '*',
-          },
-        });
-      }
-
-      // Default to serving the main HTML page
-      const htmlAsset = staticAssets['/index.html'];
-      if (htmlAsset) {
-        return new Response(htmlAsset, {
-          headers: {
-            'Content-Type': 'text/html; charset=UTF-8',
-            'Cache-Control': 'public, max-age=3600',
-            'Access-Control-Allow-Origin': '*',
-          },
-        });
-      }
-
-      return new Response('Not Found', { status: 404 });
+      response = await handleRequest(request, env, ctx, log);
     } catch (error) {
-      console.error('Worker error:', error);
-      return new Response('Internal Server Error', { status: 500 });
+      log.error('request.unhandled', errorFields(error));
+      response = new Response('Internal Server Error', { status: 500 });
     }
+
+    // Streamed responses are logged when their headers are sent; the chat
+    // route logs again when the stream ends
+    const path = new URL(request.url).pathname;
+    log.info('request', {
+      method: request.method,
+      // Share ids grant access, so they stay out of the logs
+      path: path.replace(/^\/s\/[^/]+/, '/s/:id'),
+      status: response.status,
+      durationMs: Date.now() - started,
+      requestBytes: Number(request.headers.get('Content-Length')) || 0,
+      responseBytes: Number(response.headers.get('Content-Length')) || null,
+      colo: request.cf?.colo ?? null,
+    });
+    return withRequestId(response, log.requestId!);
   },
 };
 
 /**
- * Handle chat API requests by proxying to the AI worker
+ * Route a request to the health, auth, API, admin, share page or static
+ * asset handlers
  */
-async function handleChatRequest(request: Request, env: Env): Promise<Response> {
-  try {
-    const requestUrl = new URL(request.url);
-    console.log('🔍 Backend: Chat Request Started:', {
-      domain: requestUrl.hostname,
-      method: request.method,
-      url: request.url,
-      timestamp: new Date().toISOString()
-    });
+async function handleRequest(request: Request, env: Env, ctx: ExecutionContext, log: Logger): Promise<Response> {
+  const url = new URL(request.url);
+  const path = url.pathname;
 
-    console.log('🔍 Backend: Reading request headers:', Object.fromEntries(request.headers.entries()));
-
-    // Parse the request body
-    console.log('🔍 Backend: Parsing request body...');
-    const body = await request.json();
-    console.log('🔍 Backend: Parsed request body:', body);
-    
-    const { message, instructions, reasoningLevel } = body;
-    console.log('🔍 Backend: Extracted message:', message);
-    console.log('🔍 Backend: Extracted instructions:', instructions);
-    console.log('🔍 Backend: Extracted reasoningLevel:', reasoningLevel);
-
-    // Validate the message
-    if (!message || typeof message !== 'string') {
-      console.log('🚨 Backend: Invalid message format');
-      return new Response(
-        JSON.stringify({ error: 'Invalid request: message is required' }),
-        {
-          status: 400,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
-      );
+  // Liveness: the worker is running. Public, so it says nothing else.
+  if (path === '/healthz' && request.method === 'GET') {
+    return jsonResponse({ status: 'ok' }, 200, { 'Cache-Control': 'no-store' });
+  }
+
+  // Readiness: the upstream AI service answers, from a cached probe. Details
+  // are on /admin/api/upstream.
+  if (path === '/readyz' && request.method === 'GET') {
+    const readiness = await getReadiness(env, ctx, log);
+    return jsonResponse(readiness, readiness.status === 'down' ? 503 : 200, { 'Cache-Control': 'no-store' });
+  }
+
+  // The API is same-origin only: writes that a browser sends from another
+  // site (with the user's cookies) are refused
+  if ((path.startsWith('/api/') || path.startsWith('/admin/api/')) && !SAFE_METHODS.includes(request.method) && isCrossSiteRequest(request)) {
+    return errorResponse('forbidden', 'Cross-site requests are not allowed');
+  }
+
+  // Sign-in endpoints are reachable without an identity
+  if (path === '/api/auth/login' && request.method === 'POST') {
+    return handleLogin(request, env, log);
+  }
+
+  if (path === '/api/auth/logout' && request.method === 'POST') {
+    return handleLogout();
+  }
+
+  const identity = await authenticate(request, env, log);
+
+  // Every other API route requires an identity
+  if (path.startsWith('/api/')) {
+    if (!identity) {
+      return errorResponse('unauthorized', 'Authentication required');
     }
 
-    if (message.length > 4000) {
-      console.log('🚨 Backend: Message too long');
-      return new Response(
-        JSON.stringify({ error: 'Message too long. Maximum 4000 characters.' }),
-        {
-          status: 400,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
-      );
+    try {
+      return await handleApiRequest(request, env, url, identity, ctx, log);
+    } catch (error) {
+      return apiFailure(error, log);
     }
+  }
 
-    // Prepare AI service request - EXACTLY like working curl command
-    const aiServiceUrl = 'https://ai-worker.emily-cogsdill.workers.dev/api/v1/chat';
-    const aiRequestBody: any = {
-      input: message
-    };
+  // Usage dashboard, for ADMIN_USERS only
+  if (path === '/admin' && request.method === 'GET') {
+    return handleAdminPage(env, url, identity);
+  }
 
-    // Add instructions if provided
-    if (instructions && instructions.trim()) {
-      aiRequestBody.instructions = instructions.trim();
+  // Admin API: the caller presents ADMIN_TOKEN, or is signed in and listed
+  // in ADMIN_USERS
+  if (path.startsWith('/admin/api/')) {
+    if (!await hasAdminToken(request, env)) {
+      if (!identity) {
+        return errorResponse('unauthorized', 'Authentication required');
+      }
+      if (!isAdmin(env, identity)) {
+        return errorResponse('forbidden', 'Admin access required');
+      }
     }
 
-    // Add reasoning if enabled
-    if (reasoningLevel) {
-      aiRequestBody.reasoning = { effort: reasoningLevel };
+    try {
+      return await handleAdminRequest(request, env, path) ?? errorResponse('not_found', 'Not Found');
+    } catch (error) {
+      return apiFailure(error, log);
     }
+  }
 
-    console.log('🔍 Backend: Making AI service call:', {
-      domain: requestUrl.hostname,
-      url: aiServiceUrl,
-      requestBody: aiRequestBody,
-      exactCurlMatch: 'YES - matches curl command exactly'
-    });
-    
-    console.log('🔍 Backend: AI request body JSON:', JSON.stringify(aiRequestBody));
-    
-    console.log('🔍 Backend: About to call fetch...');
-    console.log('🔍 Backend: Worker environment check:', {
-      isWorker: typeof WorkerGlobalScope !== 'undefined',
-      hasCloudflare: typeof cf !== 'undefined',
-      userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'N/A'
-    });
-    
-    // Use CF connecting IP to detect local dev (wrangler dev shows 127.0.0.1)
-    const cfConnectingIp = request.headers.get('cf-connecting-ip');
-    const isLocalDev = cfConnectingIp === '127.0.0.1';
-                      
-    console.log('🔍 Backend: Environment detection:', {
-      'env.ENVIRONMENT': env.ENVIRONMENT,
-      'cf-connecting-ip': cfConnectingIp,
-      'requestUrl.hostname': requestUrl.hostname,
-      'request.url': request.url,
-      isLocalDev
-    });
-    
-    let aiResponse;
-    
-    if (isLocalDev) {
-      // In local dev, use direct fetch to external AI worker
-      console.log('🔍 Backend: Using direct fetch (local dev mode)');
-      aiResponse = await fetch('https://ai-worker.emily-cogsdill.workers.dev/api/v1/chat', {
-        method: 'POST',
+  // Shared conversations are public, read-only pages
+  const shareMatch = path.match(/^\/s\/([\w-]+)\/?$/);
+  if (shareMatch && request.method === 'GET') {
+    return handleSharedPage(env, shareMatch[1]);
+  }
+
+  // Serve static assets
+  try {
+    const asset = getStaticAsset(path);
+    const isPage = !asset || asset.contentType.startsWith('text/html');
+
+    // Send signed-out visitors to the login page instead of the app
+    if (!identity && isPage && path !== '/login') {
+      return Response.redirect(new URL('/login', url).toString(), 302);
+    }
+
+    if (asset) {
+      return new Response(asset.content, {
         headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'ChatBGD-Worker/1.0',
+          'Content-Type': asset.contentType,
+          'Cache-Control': 'public, max-age=86400',
         },
-        body: JSON.stringify(aiRequestBody),
       });
-    } else {
-      // In production, use service binding to avoid same-zone restriction
-      console.log('🔍 Backend: Using service binding (production mode)');
-      const aiRequest = new Request('https://fake-host/api/v1/chat', {
-        method: 'POST',
+    }
+
+    // Default to serving the main HTML page
+    const htmlAsset = staticAssets['/index.html'];
+    if (htmlAsset) {
+      return new Response(htmlAsset, {
         headers: {
-          'Content-Type': 'application/json',
-          'User-Agent': 'ChatBGD-Worker/1.0',
+          'Content-Type': 'text/html; charset=UTF-8',
+          'Cache-Control': 'public, max-age=3600',
         },
-        body: JSON.stringify(aiRequestBody),
       });
-      
-      aiResponse = await env.AI_WORKER.fetch(aiRequest);
     }
 
-    console.log('🔍 Backend: AI service response received:', {
-      domain: requestUrl.hostname,
-      status: aiResponse.status,
-      statusText: aiResponse.statusText,
-      ok: aiResponse.ok,
-      headers: Object.fromEntries(aiResponse.headers.entries())
-    });
+    return new Response('Not Found', { status: 404 });
+  } catch (error) {
+    log.error('static.failed', errorFields(error));
+    return new Response('Internal Server Error', { status: 500 });
+  }
+}
 
-    // Handle AI worker response
-    if (!aiResponse.ok) {
-      console.log('🚨 Backend: AI service returned error');
-      const errorResponseText = await aiResponse.text();
-      console.log('🚨 Backend: AI error response body:', errorResponseText);
-      
-      let errorMessage = 'AI service temporarily unavailable';
-      
-      if (aiResponse.status === 429) {
-        errorMessage = 'Too many requests. Please wait a moment.';
-      } else if (aiResponse.status >= 500) {
-        errorMessage = 'AI service error. Please try again later.';
-      }
+/**
+ * Error envelope for an API request that threw. ApiErrors keep their code;
+ * anything else is logged and reported as an internal error.
+ */
+function apiFailure(error: unknown, log: Logger): Response {
+  if (error instanceof ApiError) {
+    log.warn('api.error', { code: error.code, status: error.status });
+    return apiErrorResponse(error);
+  }
+  log.error('api.unhandled', errorFields(error));
+  return errorResponse('internal_error', 'An unexpected error occurred');
+}
+
+/**
+ * Route an authenticated /api/ request
+ */
+async function handleApiRequest(
+  request: Request,
+  env: Env,
+  url: URL,
+  identity: Identity,
+  ctx: ExecutionContext,
+  log: Logger
+): Promise<Response> {
+  const path = url.pathname;
+
+  if (path === '/api/auth/me' && request.method === 'GET') {
+    return handleMe(env, identity);
+  }
+
+  // Handle chat API requests
+  if (path === '/api/chat' && request.method === 'POST') {
+    return handleChatRequest(request, env, identity, ctx, log, url.searchParams.get('stream') === '1');
+  }
+
+  // Streaming variant of the chat API (Server-Sent Events)
+  if (path === '/api/chat/stream' && request.method === 'POST') {
+    return handleChatRequest(request, env, identity, ctx, log, true);
+  }
+
+  // Current rate limit and quota for the caller
+  if (path === '/api/quota' && request.method === 'GET') {
+    return handleQuotaRequest(request, env, identity);
+  }
 
-      console.log('🚨 Backend: Returning error to frontend:', errorMessage);
-
-      return new Response(
-        JSON.stringify({ error: errorMessage }),
-        {
-          status: aiResponse.status === 429 ? 429 : 500,
-          headers: {
-            'Content-Type': 'application/json',
-            'Access-Control-Allow-Origin': '*',
-          },
-        }
-      );
+  // List the models users may choose from
+  if (path === '/api/models' && request.method === 'GET') {
+    return handleModelsRequest(env);
+  }
+
+  // Full-text search over the caller's conversations
+  if (path === '/api/search' && request.method === 'GET') {
+    return handleSearchRequest(request, env, identity);
+  }
+
+  // Team and personal instruction presets
+  if (path.startsWith('/api/presets')) {
+    const response = await handlePresetsRequest(request, env, path, identity);
+    if (response) {
+      return response;
     }
+  }
 
-    // Forward the AI response
-    console.log('🔍 Backend: AI service returned success, parsing JSON...');
-    const aiData = await aiResponse.json();
-    console.log('🔍 Backend: AI response data:', JSON.stringify(aiData, null, 2));
-    
-    // Extract both the text response and reasoning from the complex structure
-    let responseText = 'No response received';
-    let reasoningText = null;
-    console.log('🔍 Backend: Extracting response text and reasoning...');
-    
-    if (aiData.output && Array.isArray(aiData.output)) {
-      console.log('🔍 Backend: Found output array with', aiData.output.length, 'items');
-      
-      // Look for the assistant message in the output array
-      const assistantMessage = aiData.output.find(item => 
-        item.type === 'message' && item.role === 'assistant'
-      );
-      console.log('🔍 Backend: Assistant message found:', !!assistantMessage);
-      
-      if (assistantMessage && assistantMessage.content && Array.isArray(assistantMessage.content)) {
-        console.log('🔍 Backend: Assistant content array has', assistantMessage.content.length, 'items');
-        
-        // Extract the main text response
-        const textContent = assistantMessage.content.find(content => content.type === 'output_text');
-        console.log('🔍 Backend: Text content found:', !!textContent);
-        
-        if (textContent && textContent.text) {
-          responseText = textContent.text;
-          console.log('🔍 Backend: Extracted response text:', responseText);
-        }
-        
-        // Extract reasoning if present - check for reasoning_text type
-        const reasoningContent = assistantMessage.content.find(content => content.type === 'reasoning_text');
-        console.log('🔍 Backend: Reasoning content found:', !!reasoningContent);
-        
-        if (reasoningContent && reasoningContent.text) {
-          reasoningText = reasoningContent.text;
-          console.log('🔍 Backend: Extracted reasoning text:', reasoningText);
-        }
-      }
-      
-      // Also check for separate reasoning objects in the output array
-      const reasoningObject = aiData.output.find(item => item.type === 'reasoning');
-      console.log('🔍 Backend: Reasoning object found:', !!reasoningObject);
-      
-      if (reasoningObject && reasoningObject.content && Array.isArray(reasoningObject.content)) {
-        const reasoningContent = reasoningObject.content.find(content => content.type === 'reasoning_text');
-        console.log('🔍 Backend: Reasoning text in object found:', !!reasoningContent);
-        
-        if (reasoningContent && reasoningContent.text) {
-          reasoningText = reasoningContent.text;
-          console.log('🔍 Backend: Extracted reasoning from separate object:', reasoningText);
-        }
-      }
-    } else {
-      console.log('🔍 Backend: No output array found, checking for other response formats...');
-      // Maybe the response format is different, let's check for common alternatives
-      if (aiData.response) {
-        responseText = aiData.response;
-        console.log('🔍 Backend: Found response in .response field:', responseText);
-      } else if (aiData.text) {
-        responseText = aiData.text;
-        console.log('🔍 Backend: Found response in .text field:', responseText);
-      } else if (aiData.message) {
-        responseText = aiData.message;
-        console.log('🔍 Backend: Found response in .message field:', responseText);
-      } else if (typeof aiData === 'string') {
-        responseText = aiData;
-        console.log('🔍 Backend: AI data is string:', responseText);
-      }
-      
-      // Check for reasoning in alternate locations
-      if (aiData.reasoning) {
-        reasoningText = typeof aiData.reasoning === 'string' ? aiData.reasoning : JSON.stringify(aiData.reasoning, null, 2);
-        console.log('🔍 Backend: Found reasoning in .reasoning field:', reasoningText);
-      }
+  // Prompt templates shared across the team
+  if (path.startsWith('/api/templates')) {
+    const response = await handleTemplatesRequest(request, env, path, identity);
+    if (response) {
+      return response;
     }
-    
-    console.log('🔍 Backend: Final response text to send:', responseText);
-    console.log('🔍 Backend: Final reasoning text to send:', reasoningText);
-    
-    const finalResponse = { 
-      response: responseText,
-      reasoning: reasoningText
-    };
-    console.log('🔍 Backend: Final response object:', finalResponse);
-    
-    return new Response(JSON.stringify(finalResponse), {
-      status: 200,
-      headers: {
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*',
-      },
-    });
+  }
 
-  } catch (error) {
-    console.error('🚨 Backend: Chat request error caught:', error);
-    console.error('🚨 Backend: Error type:', typeof error);
-    console.error('🚨 Backend: Error message:', error.message);
-    console.error('🚨 Backend: Error stack:', error.stack);
-    return new Response(
-      JSON.stringify({ error: 'An unexpected error occurred' }),
-      {
-        status: 500,
-        headers: {
-          'Content-Type': 'application/json',
-          'Access-Control-Allow-Origin': '*',
-        },
-      }
-    );
+  // Upload, download and delete chat attachments
+  if (path.startsWith('/api/attachments')) {
+    const response = await handleAttachmentsRequest(request, env, path, identity, log);
+    if (response) {
+      return response;
+    }
+  }
+
+  // Handle conversation storage requests
+  if (path.startsWith('/api/conversations')) {
+    const response = await handleConversationsRequest(request, env, path, identity, ctx, log);
+    if (response) {
+      return response;
+    }
+  }
+
+  // Create, list and revoke share links
+  if (path.startsWith('/api/shares')) {
+    const response = await handleSharesRequest(request, env, path, identity);
+    if (response) {
+      return response;
+    }
   }
+
+  return errorResponse('not_found', 'Not Found');
 }
 
+// Pages served only by their own route, which checks access first
+const ROUTED_PAGES = ['/admin.html'];
+
 /**
  * Get static asset by path
  */
@@ -448,10 +354,12 @@ function getStaticAsset(path: string): { content: string; contentType: string }
   // Normalize path
   if (path === '/' || path === '') {
     path = '/index.html';
+  } else if (path === '/login') {
+    path = '/login.html';
   }
 
   const asset = staticAssets[path];
-  if (!asset) {
+  if (!asset || ROUTED_PAGES.includes(path)) {
     return null;
   }
 
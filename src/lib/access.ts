@@ -0,0 +1,78 @@
+/**
+ * Cloudflare Access JWT validation
+ * Verifies the RS256 signature against the team's published certs and checks
+ * issuer, audience and expiry.
+ */
+
+import { base64UrlDecode } from './encoding';
+import { errorFields, type Logger } from './log';
+
+export interface AccessClaims {
+  sub: string;
+  email?: string;
+  aud: string | string[];
+  iss: string;
+  exp: number;
+}
+
+interface AccessJwk extends JsonWebKey {
+  kid: string;
+}
+
+// Certs rotate rarely; refresh at most every 10 minutes per isolate
+const CERTS_TTL_MS = 10 * 60 * 1000;
+
+let certsCache: { url: string; keys: AccessJwk[]; fetchedAt: number } | null = null;
+
+async function getCerts(teamDomain: string): Promise<AccessJwk[]> {
+  const url = `https://${teamDomain}/cdn-cgi/access/certs`;
+  if (certsCache && certsCache.url === url && Date.now() - certsCache.fetchedAt < CERTS_TTL_MS) {
+    return certsCache.keys;
+  }
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Access certs request failed with ${response.status}`);
+  }
+  const { keys } = await response.json() as { keys: AccessJwk[] };
+  certsCache = { url, keys, fetchedAt: Date.now() };
+  return keys;
+}
+
+/**
+ * Returns the token's claims when valid, otherwise null
+ */
+export async function verifyAccessJwt(token: string, teamDomain: string, audience: string, log: Logger): Promise<AccessClaims | null> {
+  const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedHeader || !encodedPayload || !encodedSignature) return null;
+
+  try {
+    const decoder = new TextDecoder();
+    const header = JSON.parse(decoder.decode(base64UrlDecode(encodedHeader)));
+    const claims = JSON.parse(decoder.decode(base64UrlDecode(encodedPayload))) as AccessClaims;
+    if (header.alg !== 'RS256') return null;
+
+    const jwk = (await getCerts(teamDomain)).find(key => key.kid === header.kid);
+    if (!jwk) return null;
+
+    const key = await crypto.subtle.importKey('jwk', jwk, { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, false, ['verify']);
+    const valid = await crypto.subtle.verify(
+      'RSASSA-PKCS1-v1_5',
+      key,
+      base64UrlDecode(encodedSignature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+    );
+    if (!valid) return null;
+
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(audience)) return null;
+    if (claims.iss !== `https://${teamDomain}`) return null;
+    if (typeof claims.exp !== 'number' || claims.exp < Date.now() / 1000) return null;
+    if (typeof claims.sub !== 'string') return null;
+
+    return claims;
+  } catch (error) {
+    log.warn('auth.access_jwt_failed', errorFields(error));
+    return null;
+  }
+}
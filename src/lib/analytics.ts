@@ -0,0 +1,182 @@
+/**
+ * Usage analytics backed by Workers KV
+ * Every chat request is recorded as one `usage:<date>:<time>:<request id>`
+ * entry in the ANALYTICS namespace. The entry's value is empty and the event
+ * lives in its metadata, so a day's events are read by listing keys without
+ * fetching any values. Concurrent requests never write the same key, so no
+ * counts are lost the way a shared read-modify-write aggregate would lose
+ * them; totals and percentiles are computed when the dashboard asks.
+ */
+
+import type { ErrorCode } from './errors';
+import type { TokenUsage } from './streaming';
+
+export interface UsageEvent {
+  at: string;
+  user: string;
+  // null when the request failed before a model was chosen
+  model: string | null;
+  reasoningLevel: string | null;
+  stream: boolean;
+  // As reported in the upstream `usage` block; null when it was missing
+  inputTokens: number | null;
+  outputTokens: number | null;
+  // Charged against the daily budget: reported usage, or an estimate
+  tokens: number;
+  latencyMs: number;
+  status: number;
+  // Set for failed requests, including errors reported inside a stream
+  error: ErrorCode | null;
+}
+
+export interface UsageStats {
+  requests: number;
+  errors: number;
+  errorRate: number;
+  inputTokens: number;
+  outputTokens: number;
+  tokens: number;
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageStats;
+  // One entry per day in the range, oldest first
+  daily: (UsageStats & { date: string })[];
+  topUsers: (UsageStats & { user: string })[];
+  models: (UsageStats & { model: string | null })[];
+  errorCodes: Partial<Record<ErrorCode, number>>;
+  // True when some day had more events than are read per day
+  truncated: boolean;
+}
+
+const KEY_PREFIX = 'usage:';
+
+// Events are kept for this long, then KV drops them
+const RETENTION_DAYS = 90;
+
+export const DEFAULT_REPORT_DAYS = 7;
+export const MAX_REPORT_DAYS = 31;
+
+// Events read per day (one list call per 1000)
+const MAX_EVENTS_PER_DAY = 10000;
+
+const TOP_USERS = 10;
+
+// Metadata is limited to 1024 bytes, so long identifiers are cut short
+const MAX_ID_CHARS = 200;
+
+function utcDate(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+function dayPrefix(date: string): string {
+  return `${KEY_PREFIX}${date}:`;
+}
+
+/**
+ * Event fields for an upstream `usage` block
+ */
+export function usageTokens(usage: TokenUsage | null | undefined): Pick<UsageEvent, 'inputTokens' | 'outputTokens'> {
+  return { inputTokens: usage?.input_tokens ?? null, outputTokens: usage?.output_tokens ?? null };
+}
+
+/**
+ * Store one event. Does nothing when no ANALYTICS namespace is bound.
+ */
+export async function recordUsage(kv: KVNamespace | undefined, requestId: string | null, event: UsageEvent): Promise<void> {
+  if (!kv) return;
+
+  const metadata: UsageEvent = {
+    ...event,
+    user: event.user.slice(0, MAX_ID_CHARS),
+    model: event.model?.slice(0, MAX_ID_CHARS) ?? null,
+  };
+  const key = `${dayPrefix(event.at.slice(0, 10))}${event.at}:${requestId ?? crypto.randomUUID()}`;
+  await kv.put(key, '', { metadata, expirationTtl: RETENTION_DAYS * 24 * 3600 });
+}
+
+/**
+ * A day's events, oldest first, and whether there were more than are read
+ */
+export async function listUsageEvents(kv: KVNamespace, date: string): Promise<{ events: UsageEvent[]; truncated: boolean }> {
+  const events: UsageEvent[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list<UsageEvent>({ prefix: dayPrefix(date), cursor });
+    for (const key of page.keys) {
+      if (key.metadata) events.push(key.metadata);
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor && events.length < MAX_EVENTS_PER_DAY);
+
+  return { events, truncated: Boolean(cursor) };
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.max(0, Math.ceil(sorted.length * p) - 1)];
+}
+
+function stats(events: UsageEvent[]): UsageStats {
+  const latencies = events.map(event => event.latencyMs).sort((a, b) => a - b);
+  const errors = events.filter(event => event.error).length;
+  return {
+    requests: events.length,
+    errors,
+    errorRate: events.length ? errors / events.length : 0,
+    inputTokens: events.reduce((sum, event) => sum + (event.inputTokens ?? 0), 0),
+    outputTokens: events.reduce((sum, event) => sum + (event.outputTokens ?? 0), 0),
+    tokens: events.reduce((sum, event) => sum + event.tokens, 0),
+    p50LatencyMs: percentile(latencies, 0.5),
+    p95LatencyMs: percentile(latencies, 0.95),
+  };
+}
+
+function groupBy<K>(events: UsageEvent[], key: (event: UsageEvent) => K): Map<K, UsageEvent[]> {
+  const groups = new Map<K, UsageEvent[]>();
+  for (const event of events) {
+    const group = groups.get(key(event));
+    if (group) {
+      group.push(event);
+    } else {
+      groups.set(key(event), [event]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Aggregate the `days` days up to and including today (UTC)
+ */
+export async function buildUsageReport(kv: KVNamespace, days: number, now: number = Date.now()): Promise<UsageReport> {
+  const dates = Array.from({ length: days }, (_, i) => utcDate(now - (days - 1 - i) * 24 * 3600 * 1000));
+  const perDay = await Promise.all(dates.map(date => listUsageEvents(kv, date)));
+  const all = perDay.flatMap(day => day.events);
+
+  const errorCodes: UsageReport['errorCodes'] = {};
+  for (const event of all) {
+    if (event.error) errorCodes[event.error] = (errorCodes[event.error] ?? 0) + 1;
+  }
+
+  return {
+    from: dates[0],
+    to: dates[dates.length - 1],
+    totals: stats(all),
+    daily: perDay.map((day, i) => ({ date: dates[i], ...stats(day.events) })),
+    topUsers: [...groupBy(all, event => event.user)]
+      .map(([user, events]) => ({ user, ...stats(events) }))
+      .sort((a, b) => b.requests - a.requests || b.tokens - a.tokens)
+      .slice(0, TOP_USERS),
+    models: [...groupBy(all, event => event.model)]
+      .map(([model, events]) => ({ model, ...stats(events) }))
+      .sort((a, b) => b.requests - a.requests),
+    errorCodes,
+    truncated: perDay.some(day => day.truncated),
+  };
+}
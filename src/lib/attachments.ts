@@ -0,0 +1,330 @@
+/**
+ * Chat attachments
+ * Uploaded files are stored in the ATTACHMENTS R2 bucket, or in the
+ * CONVERSATIONS KV namespace as a stand-in when no bucket is bound (local
+ * development). Text files and PDFs are turned into text at upload time;
+ * images are sent to vision-capable models as `input_image` parts.
+ */
+
+import type { Env } from '../index';
+import type { ContentPart } from './conversation';
+import { ApiError } from './errors';
+import { errorFields, type Logger } from './log';
+
+export type AttachmentKind = 'text' | 'image' | 'pdf';
+
+export interface AttachmentInfo {
+  id: string;
+  owner: string;
+  name: string;
+  type: string;
+  size: number;
+  kind: AttachmentKind;
+  createdAt: string;
+}
+
+// What a stored message records about each of its attachments
+export type AttachmentRef = Pick<AttachmentInfo, 'id' | 'name' | 'type' | 'size' | 'kind'>;
+
+export interface LoadedAttachment {
+  info: AttachmentInfo;
+  // Inlined text for text files and PDFs
+  text: string | null;
+  // Raw bytes for images
+  data: ArrayBuffer | null;
+}
+
+// Per-file size limits by kind, in bytes
+export const ATTACHMENT_SIZE_LIMITS: Record<AttachmentKind, number> = {
+  text: 200 * 1024,
+  image: 5 * 1024 * 1024,
+  pdf: 10 * 1024 * 1024,
+};
+
+export const MAX_ATTACHMENTS = 5;
+
+// Inlined text across all of a message's attachments, in characters
+export const MAX_ATTACHMENT_TEXT_CHARS = 100000;
+
+export const ATTACHMENT_ID_PATTERN = /^[\w-]{1,64}$/;
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+// Code and config files browsers often report without a text/* type
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|csv|tsv|json|jsonl|ya?ml|toml|ini|xml|html?|css|scss|js|jsx|mjs|cjs|ts|tsx|py|rb|go|rs|java|kt|swift|c|h|cc|cpp|hpp|cs|php|sh|bash|zsh|sql|graphql|proto|diff|patch|log|env|gitignore|dockerfile)$/i;
+
+const KEY_PREFIX = 'attachment:';
+
+interface StoredBlob {
+  data: ArrayBuffer;
+  info: AttachmentInfo;
+}
+
+interface BlobStore {
+  put(key: string, data: ArrayBuffer | string, info: AttachmentInfo): Promise<void>;
+  get(key: string): Promise<StoredBlob | null>;
+  delete(key: string): Promise<void>;
+}
+
+function r2Store(bucket: R2Bucket): BlobStore {
+  return {
+    async put(key, data, info) {
+      await bucket.put(key, data, { customMetadata: { info: JSON.stringify(info) } });
+    },
+    async get(key) {
+      const object = await bucket.get(key);
+      if (!object?.customMetadata?.info) return null;
+      return { data: await object.arrayBuffer(), info: JSON.parse(object.customMetadata.info) };
+    },
+    async delete(key) {
+      await bucket.delete(key);
+    },
+  };
+}
+
+function kvStore(kv: KVNamespace): BlobStore {
+  return {
+    async put(key, data, info) {
+      await kv.put(key, data, { metadata: info });
+    },
+    async get(key) {
+      const { value, metadata } = await kv.getWithMetadata<AttachmentInfo>(key, 'arrayBuffer');
+      return value && metadata ? { data: value, info: metadata } : null;
+    },
+    async delete(key) {
+      await kv.delete(key);
+    },
+  };
+}
+
+function getBlobStore(env: Env): BlobStore | null {
+  if (env.ATTACHMENTS) return r2Store(env.ATTACHMENTS);
+  if (env.CONVERSATIONS) return kvStore(env.CONVERSATIONS);
+  return null;
+}
+
+function blobKey(owner: string, id: string): string {
+  return `${KEY_PREFIX}${encodeURIComponent(owner)}:${id}`;
+}
+
+// Extracted text sits next to the original file
+function textKey(owner: string, id: string): string {
+  return `${blobKey(owner, id)}:text`;
+}
+
+function invalid(message: string): ApiError {
+  return new ApiError('validation_error', `Invalid request: ${message}`, { field: 'attachments' });
+}
+
+function formatBytes(bytes: number): string {
+  return bytes >= 1024 * 1024 ? `${Math.round(bytes / (1024 * 1024))} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+/**
+ * Decide how a file will be sent to the model, or null when unsupported
+ */
+export function attachmentKind(name: string, type: string): AttachmentKind | null {
+  if (IMAGE_TYPES.includes(type)) return 'image';
+  if (type === 'application/pdf' || /\.pdf$/i.test(name)) return 'pdf';
+  if (type.startsWith('text/') || type === 'application/json' || TEXT_EXTENSIONS.test(name)) return 'text';
+  return null;
+}
+
+/**
+ * Reject files over their kind's size limit
+ */
+export function checkAttachmentSize(info: Pick<AttachmentInfo, 'name' | 'size' | 'kind'>): void {
+  const limit = ATTACHMENT_SIZE_LIMITS[info.kind];
+  if (info.size > limit) {
+    throw invalid(`${info.name} is too large. ${info.kind === 'text' ? 'Text files' : info.kind === 'pdf' ? 'PDFs' : 'Images'} can be at most ${formatBytes(limit)}.`);
+  }
+}
+
+async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const { extractText, getDocumentProxy } = await import('unpdf');
+  const pdf = await getDocumentProxy(new Uint8Array(data));
+  const { text } = await extractText(pdf, { mergePages: true });
+  return text.trim();
+}
+
+/**
+ * Store an uploaded file for the owner. Text files must be UTF-8; PDFs must
+ * contain extractable text.
+ */
+export async function saveAttachment(env: Env, owner: string, file: File, log: Logger): Promise<AttachmentInfo> {
+  const store = getBlobStore(env);
+  if (!store) {
+    throw new ApiError('not_configured', 'Attachment storage is not configured');
+  }
+
+  const kind = attachmentKind(file.name, file.type);
+  if (!kind) {
+    throw invalid(`${file.name} is not a supported file type. Attach text, code, PDF or image files.`);
+  }
+
+  const info: AttachmentInfo = {
+    id: crypto.randomUUID(),
+    owner,
+    name: file.name.slice(0, 200) || 'attachment',
+    type: file.type || (kind === 'pdf' ? 'application/pdf' : 'text/plain'),
+    size: file.size,
+    kind,
+    createdAt: new Date().toISOString(),
+  };
+  checkAttachmentSize(info);
+
+  const data = await file.arrayBuffer();
+  if (kind === 'text') {
+    try {
+      new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(data);
+    } catch {
+      throw invalid(`${info.name} is not a UTF-8 text file`);
+    }
+  }
+
+  if (kind === 'pdf') {
+    let text: string;
+    try {
+      text = await extractPdfText(data);
+    } catch (error) {
+      log.warn('attachment.pdf_failed', { size: info.size, ...errorFields(error) });
+      throw invalid(`${info.name} could not be read as a PDF`);
+    }
+    if (!text) {
+      throw invalid(`${info.name} has no extractable text (scanned PDFs are not supported)`);
+    }
+    await store.put(textKey(owner, info.id), text, info);
+  }
+
+  await store.put(blobKey(owner, info.id), data, info);
+  log.info('attachment.saved', { kind, type: info.type, size: info.size });
+  return info;
+}
+
+/**
+ * The original file, for downloading. Only its owner can read it.
+ */
+export async function getAttachmentFile(env: Env, owner: string, id: string): Promise<StoredBlob | null> {
+  const store = getBlobStore(env);
+  if (!store || !ATTACHMENT_ID_PATTERN.test(id)) return null;
+  return store.get(blobKey(owner, id));
+}
+
+export async function deleteAttachment(env: Env, owner: string, id: string): Promise<boolean> {
+  const store = getBlobStore(env);
+  if (!store || !ATTACHMENT_ID_PATTERN.test(id)) return false;
+
+  const existing = await store.get(blobKey(owner, id));
+  if (!existing) return false;
+
+  await store.delete(blobKey(owner, id));
+  if (existing.info.kind === 'pdf') {
+    await store.delete(textKey(owner, id));
+  }
+  return true;
+}
+
+/**
+ * Load the attachments a chat request refers to, enforcing the per-file and
+ * total text limits. Unknown ids, or ids belonging to someone else, are
+ * rejected.
+ */
+export async function loadAttachments(
+  env: Env,
+  owner: string,
+  ids: string[],
+  maxTextChars: number = MAX_ATTACHMENT_TEXT_CHARS
+): Promise<LoadedAttachment[]> {
+  const store = getBlobStore(env);
+  if (!store) {
+    throw new ApiError('not_configured', 'Attachment storage is not configured');
+  }
+
+  const loaded: LoadedAttachment[] = [];
+  let textChars = 0;
+
+  for (const id of ids) {
+    const blob = await store.get(blobKey(owner, id));
+    if (!blob) {
+      throw invalid(`attachment ${id} was not found`);
+    }
+    const { info, data } = blob;
+    checkAttachmentSize(info);
+
+    let text: string | null = null;
+    if (info.kind === 'text') {
+      text = new TextDecoder().decode(data);
+    } else if (info.kind === 'pdf') {
+      const extracted = await store.get(textKey(owner, id));
+      text = extracted ? new TextDecoder().decode(extracted.data) : '';
+    }
+
+    textChars += text?.length ?? 0;
+    if (textChars > maxTextChars) {
+      throw invalid(`attachments contain too much text. Maximum ${maxTextChars} characters in total.`);
+    }
+    loaded.push({ info, text, data: info.kind === 'image' ? data : null });
+  }
+
+  return loaded;
+}
+
+// A code fence longer than any backtick run in the text, so it cannot end early
+function fence(text: string): string {
+  const longest = Math.max(0, ...Array.from(text.matchAll(/`+/g), match => match[0].length));
+  return '`'.repeat(Math.max(3, longest + 1));
+}
+
+function toBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Content parts for a user message with attachments: the typed text, each
+ * text file or PDF in a fenced block, then images as data URLs
+ */
+export function buildAttachmentContent(message: string, attachments: LoadedAttachment[]): ContentPart[] {
+  const parts: ContentPart[] = [];
+  if (message.trim()) {
+    parts.push({ type: 'input_text', text: message });
+  }
+
+  for (const { info, text, data } of attachments) {
+    if (text !== null) {
+      const marker = fence(text);
+      parts.push({ type: 'input_text', text: `Attached file: ${info.name}\n${marker}\n${text.trimEnd()}\n${marker}` });
+    } else if (data) {
+      parts.push({ type: 'input_image', image_url: `data:${info.type};base64,${toBase64(data)}` });
+    }
+  }
+  return parts;
+}
+
+export function toAttachmentRef({ id, name, type, size, kind }: AttachmentInfo): AttachmentRef {
+  return { id, name, type, size, kind };
+}
+
+/**
+ * Validate a stored message's attachment list, returning undefined when it
+ * is malformed
+ */
+export function parseAttachmentRefs(value: unknown): AttachmentRef[] | undefined {
+  if (value == null) return [];
+  if (!Array.isArray(value) || value.length > MAX_ATTACHMENTS) return undefined;
+
+  const refs: AttachmentRef[] = [];
+  for (const item of value) {
+    const { id, name, type, size, kind } = (item ?? {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || !ATTACHMENT_ID_PATTERN.test(id)) return undefined;
+    if (typeof name !== 'string' || typeof type !== 'string' || typeof size !== 'number') return undefined;
+    if (kind !== 'text' && kind !== 'image' && kind !== 'pdf') return undefined;
+    refs.push({ id, name, type, size, kind });
+  }
+  return refs;
+}
@@ -0,0 +1,205 @@
+/**
+ * Authentication and sessions
+ * Users sign in with a username/password from AUTH_USERS and receive an
+ * HMAC-signed session cookie; requests that arrive through Cloudflare Access
+ * are accepted on the strength of their Access JWT instead.
+ */
+
+import type { Env } from '../index';
+import { verifyAccessJwt } from './access';
+import { base64UrlEncode, base64UrlDecode, hexToBytes } from './encoding';
+import type { Logger } from './log';
+
+export interface Identity {
+  id: string;
+  name: string;
+  method: 'session' | 'access' | 'anonymous';
+}
+
+interface SessionPayload {
+  sub: string;
+  name: string;
+  exp: number;
+}
+
+export const SESSION_COOKIE = 'chatbgd_session';
+
+const DEFAULT_SESSION_TTL_HOURS = 168;
+
+// Checked in place of a missing or malformed user entry, so that failed
+// lookups cost the same PBKDF2 work as a wrong password
+const DUMMY_PASSWORD_HASH =
+  'pbkdf2:100000:d97c42ba07dbe28b6788522c0a149212:9bfb1c3ea2bc869783f093deb6add07a591d5a1c995f98974eb8dea592853084';
+
+const encoder = new TextEncoder();
+
+/**
+ * Whether requests must carry an identity (AUTH_MODE = "required")
+ */
+export function isAuthRequired(env: Env): boolean {
+  return env.AUTH_MODE !== 'off';
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a[i] ^ b[i];
+  }
+  return diff === 0;
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+}
+
+/**
+ * Whether the identity may use the admin dashboard: its id is listed in
+ * ADMIN_USERS (comma-separated session usernames or Access emails)
+ */
+export function isAdmin(env: Env, identity: Identity): boolean {
+  const admins = (env.ADMIN_USERS ?? '').split(',').map(id => id.trim()).filter(Boolean);
+  return admins.includes(identity.id);
+}
+
+/**
+ * Whether the request carries `Authorization: Bearer <ADMIN_TOKEN>`, which
+ * lets scripts call the admin API without signing in
+ */
+export async function hasAdminToken(request: Request, env: Env): Promise<boolean> {
+  const header = request.headers.get('Authorization');
+  if (!env.ADMIN_TOKEN || !header?.startsWith('Bearer ')) return false;
+
+  // Compare digests so the comparison takes the same time for any length
+  const [expected, actual] = await Promise.all(
+    [env.ADMIN_TOKEN, header.slice('Bearer '.length)].map(value => crypto.subtle.digest('SHA-256', encoder.encode(value)))
+  );
+  return timingSafeEqual(new Uint8Array(expected), new Uint8Array(actual));
+}
+
+/**
+ * Read a cookie value from the request
+ */
+export function getCookie(request: Request, name: string): string | null {
+  const header = request.headers.get('Cookie');
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) {
+      return rest.join('=');
+    }
+  }
+  return null;
+}
+
+/**
+ * Create a signed session token: base64url(payload).base64url(hmac)
+ */
+export async function createSessionToken(env: Env, sub: string, name: string): Promise<{ token: string; maxAge: number }> {
+  if (!env.SESSION_SECRET) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+
+  const ttlHours = Number(env.SESSION_TTL_HOURS) || DEFAULT_SESSION_TTL_HOURS;
+  const maxAge = Math.floor(ttlHours * 3600);
+  const payload: SessionPayload = { sub, name, exp: Math.floor(Date.now() / 1000) + maxAge };
+
+  const encodedPayload = base64UrlEncode(encoder.encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign('HMAC', await hmacKey(env.SESSION_SECRET), encoder.encode(encodedPayload));
+
+  return { token: `${encodedPayload}.${base64UrlEncode(signature)}`, maxAge };
+}
+
+async function verifySessionToken(env: Env, token: string): Promise<SessionPayload | null> {
+  if (!env.SESSION_SECRET) return null;
+
+  const [encodedPayload, encodedSignature] = token.split('.');
+  if (!encodedPayload || !encodedSignature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      'HMAC',
+      await hmacKey(env.SESSION_SECRET),
+      base64UrlDecode(encodedSignature),
+      encoder.encode(encodedPayload)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedPayload))) as SessionPayload;
+    if (typeof payload.sub !== 'string' || payload.exp < Date.now() / 1000) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set-Cookie header value for a session (or for clearing it when token is empty)
+ */
+export function sessionCookie(token: string, maxAge: number): string {
+  return `${SESSION_COOKIE}=${token}; Path=/; Max-Age=${maxAge}; HttpOnly; Secure; SameSite=Lax`;
+}
+
+/**
+ * Check a username/password against AUTH_USERS, a JSON object mapping
+ * usernames to "pbkdf2:<iterations>:<salt hex>:<hash hex>" strings
+ * (generate with `npm run hash-password`).
+ */
+export async function verifyCredentials(env: Env, username: string, password: string, log: Logger): Promise<boolean> {
+  let users: Record<string, string>;
+  try {
+    users = JSON.parse(env.AUTH_USERS || '{}');
+  } catch {
+    log.error('config.invalid', { variable: 'AUTH_USERS' });
+    return false;
+  }
+
+  const stored = Object.prototype.hasOwnProperty.call(users, username) ? users[username] : null;
+  const known = typeof stored === 'string' && isPasswordHash(stored);
+  const [, iterations, saltHex, hashHex] = (known ? stored : DUMMY_PASSWORD_HASH).split(':');
+
+  const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+  const derived = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', salt: hexToBytes(saltHex), iterations: Number(iterations), hash: 'SHA-256' },
+    key,
+    256
+  );
+
+  return timingSafeEqual(new Uint8Array(derived), hexToBytes(hashHex)) && known;
+}
+
+function isPasswordHash(value: string): boolean {
+  const [scheme, iterations, saltHex, hashHex] = value.split(':');
+  return scheme === 'pbkdf2' && Boolean(iterations && saltHex && hashHex);
+}
+
+/**
+ * Resolve the caller's identity from a Cloudflare Access JWT or a session
+ * cookie. With AUTH_MODE = "off", unauthenticated callers share an
+ * anonymous identity.
+ */
+export async function authenticate(request: Request, env: Env, log: Logger): Promise<Identity | null> {
+  const accessToken = request.headers.get('Cf-Access-Jwt-Assertion') || getCookie(request, 'CF_Authorization');
+  if (accessToken && env.ACCESS_TEAM_DOMAIN && env.ACCESS_AUD) {
+    const claims = await verifyAccessJwt(accessToken, env.ACCESS_TEAM_DOMAIN, env.ACCESS_AUD, log);
+    if (claims) {
+      const id = claims.email || claims.sub;
+      return { id, name: claims.email || id, method: 'access' };
+    }
+  }
+
+  const sessionToken = getCookie(request, SESSION_COOKIE);
+  if (sessionToken) {
+    const session = await verifySessionToken(env, sessionToken);
+    if (session) {
+      return { id: session.sub, name: session.name, method: 'session' };
+    }
+  }
+
+  if (!isAuthRequired(env)) {
+    return { id: 'anonymous', name: 'Anonymous', method: 'anonymous' };
+  }
+
+  return null;
+}
@@ -0,0 +1,142 @@
+/**
+ * Conversation context helpers
+ * Turns the visible chat thread into the multi-item `input` the AI worker's
+ * Responses-style API accepts, trimming old turns to stay within budget.
+ */
+
+export type ChatRole = 'user' | 'assistant';
+
+export type ReasoningLevel = 'low' | 'medium' | 'high';
+
+export const REASONING_LEVELS: readonly ReasoningLevel[] = ['low', 'medium', 'high'];
+
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+}
+
+// Responses-style content parts, used when a message carries attachments
+export type ContentPart =
+  | { type: 'input_text'; text: string }
+  | { type: 'input_image'; image_url: string };
+
+export interface MessageItem {
+  role: ChatRole;
+  content: string | ContentPart[];
+}
+
+// A tool call the model made, echoed back on the next round
+export interface FunctionCallItem {
+  type: 'function_call';
+  call_id: string;
+  name: string;
+  arguments: string;
+}
+
+// The worker's result for a tool call
+export interface FunctionCallOutputItem {
+  type: 'function_call_output';
+  call_id: string;
+  output: string;
+}
+
+export type InputItem = MessageItem | FunctionCallItem | FunctionCallOutputItem;
+
+export interface ConversationInput {
+  input: MessageItem[];
+  turnsSent: number;
+  turnsDropped: number;
+}
+
+// Maximum characters for the latest user message
+export const MAX_MESSAGE_CHARS = 4000;
+
+// Maximum characters for custom instructions
+export const MAX_INSTRUCTIONS_CHARS = 1000;
+
+// Maximum characters for a summary standing in for earlier turns
+export const MAX_SUMMARY_CHARS = 4000;
+
+// Character budget for prior turns (roughly 4 characters per token)
+export const MAX_HISTORY_CHARS = 16000;
+
+// Hard cap on prior turns, regardless of their size
+export const MAX_HISTORY_TURNS = 40;
+
+/**
+ * Plain text of an input item, with images reduced to a placeholder
+ */
+export function contentText(content: string | ContentPart[]): string {
+  if (typeof content === 'string') return content;
+  return content.map(part => part.type === 'input_text' ? part.text : '[image]').join('\n\n');
+}
+
+/**
+ * Rough token estimate used for budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Validate and normalise a history array from a request body.
+ * Returns null if the shape is invalid.
+ */
+export function parseHistory(value: unknown): ChatTurn[] | null {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    return null;
+  }
+
+  const turns: ChatTurn[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== 'object') {
+      return null;
+    }
+    const { role, content } = item as Record<string, unknown>;
+    if ((role !== 'user' && role !== 'assistant') || typeof content !== 'string') {
+      return null;
+    }
+    if (content.trim()) {
+      turns.push({ role, content });
+    }
+  }
+  return turns;
+}
+
+/**
+ * Build the upstream `input` array from prior turns plus the latest message.
+ * The newest turns are kept first; older turns are dropped once either budget
+ * is exceeded, and the kept window always starts on a user turn.
+ */
+export function buildConversationInput(
+  history: ChatTurn[],
+  message: string,
+  maxChars: number = MAX_HISTORY_CHARS,
+  maxTurns: number = MAX_HISTORY_TURNS
+): ConversationInput {
+  const kept: ChatTurn[] = [];
+  let usedChars = 0;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const turn = history[i];
+    if (kept.length >= maxTurns || usedChars + turn.content.length > maxChars) {
+      break;
+    }
+    kept.unshift(turn);
+    usedChars += turn.content.length;
+  }
+
+  // Never open the context with a dangling assistant reply
+  while (kept.length > 0 && kept[0].role !== 'user') {
+    kept.shift();
+  }
+
+  return {
+    input: [...kept, { role: 'user', content: message }],
+    turnsSent: kept.length,
+    turnsDropped: history.length - kept.length,
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Admin diagnostics
+ * What the worker is running with: which bindings are present, its vars with
+ * secrets masked, and whether the upstream answers. Served only under
+ * /admin/api, never on the public surface.
+ */
+
+import type { Env } from '../index';
+import { getProvider, type HealthProbe } from '../providers';
+import { getCircuitState, type CircuitState } from './upstream';
+
+export interface UpstreamCheck {
+  provider: string;
+  healthy: boolean;
+  status: number | null;
+  // Upstream response body or error message, cut short
+  detail: string;
+  durationMs: number;
+  checkedAt: string;
+  // Circuit breaker for chat requests, in the isolate that answered
+  circuit: CircuitState;
+}
+
+// Bindings the worker knows how to use; any others are reported as well
+const KNOWN_BINDINGS = ['CONVERSATIONS', 'ANALYTICS', 'ATTACHMENTS', 'AI_WORKER', 'AI', 'RATE_LIMITER', 'TEMPLATES'];
+
+// Vars holding credentials are reported as set or unset, never by value
+const SECRET_PATTERN = /(SECRET|TOKEN|KEY|PASSWORD)$|^AUTH_USERS$/;
+
+export const MASKED_VALUE = '[set]';
+
+const MAX_DETAIL_CHARS = 1000;
+
+// A probe with no answer by then is reported as unhealthy
+export const PROBE_TIMEOUT_MS = 10000;
+
+// Vars are strings, or arrays and tables when written as TOML values
+function isVar(value: unknown): boolean {
+  if (typeof value !== 'object' || value === null) return true;
+  return Array.isArray(value) || Object.getPrototypeOf(value) === Object.prototype;
+}
+
+/**
+ * Whether each known binding is present, plus any unknown ones that are
+ */
+export function describeBindings(env: Env): Record<string, boolean> {
+  const bindings: Record<string, boolean> = {};
+  for (const name of KNOWN_BINDINGS) {
+    bindings[name] = Boolean((env as Record<string, unknown>)[name]);
+  }
+  for (const [name, value] of Object.entries(env)) {
+    if (!(name in bindings) && !isVar(value)) bindings[name] = true;
+  }
+  return bindings;
+}
+
+/**
+ * Every var by name, with secrets replaced by MASKED_VALUE (or null when empty)
+ */
+export function describeConfig(env: Env): Record<string, unknown> {
+  const config: Record<string, unknown> = {};
+  for (const name of Object.keys(env).sort()) {
+    const value = (env as Record<string, unknown>)[name];
+    if (KNOWN_BINDINGS.includes(name) || !isVar(value)) continue;
+    config[name] = SECRET_PATTERN.test(name) ? (value ? MASKED_VALUE : null) : value;
+  }
+  return config;
+}
+
+/**
+ * Run the provider's health probe and time it
+ */
+export async function checkUpstream(env: Env): Promise<UpstreamCheck> {
+  const provider = getProvider(env);
+  const started = Date.now();
+  const signal = AbortSignal.timeout(PROBE_TIMEOUT_MS);
+  // Providers that cannot abort their probe are raced against the deadline
+  const timedOut = new Promise<HealthProbe>(resolve => {
+    signal.addEventListener('abort', () => {
+      resolve({ healthy: false, status: null, detail: `No answer within ${PROBE_TIMEOUT_MS / 1000} seconds` });
+    }, { once: true });
+  });
+  const probe = await Promise.race([provider.healthCheck(signal), timedOut]);
+  return {
+    provider: provider.name,
+    healthy: probe.healthy,
+    status: probe.status,
+    detail: probe.detail.slice(0, MAX_DETAIL_CHARS),
+    durationMs: Date.now() - started,
+    checkedAt: new Date(started).toISOString(),
+    circuit: getCircuitState(provider.name),
+  };
+}
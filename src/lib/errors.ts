@@ -0,0 +1,107 @@
+/**
+ * Structured API errors
+ * Every failing API response carries `{error: {code, message, retryable, details}}`
+ * so clients can branch on a stable code instead of parsing message text.
+ */
+
+export type ErrorCode =
+  | 'validation_error'
+  | 'unauthorized'
+  | 'forbidden'
+  | 'not_found'
+  | 'not_configured'
+  | 'rate_limited'
+  | 'upstream_timeout'
+  | 'upstream_unavailable'
+  | 'upstream_rate_limited'
+  | 'upstream_client_error'
+  | 'upstream_server_error'
+  | 'upstream_malformed'
+  | 'internal_error';
+
+export interface ErrorDetail {
+  code: ErrorCode;
+  message: string;
+  retryable: boolean;
+  details?: Record<string, unknown>;
+}
+
+export interface ErrorEnvelope {
+  error: ErrorDetail;
+}
+
+// HTTP status and whether retrying the same request can succeed
+const ERROR_DEFAULTS: Record<ErrorCode, { status: number; retryable: boolean }> = {
+  validation_error: { status: 400, retryable: false },
+  unauthorized: { status: 401, retryable: false },
+  forbidden: { status: 403, retryable: false },
+  not_found: { status: 404, retryable: false },
+  not_configured: { status: 503, retryable: false },
+  rate_limited: { status: 429, retryable: true },
+  upstream_timeout: { status: 504, retryable: true },
+  upstream_unavailable: { status: 503, retryable: true },
+  upstream_rate_limited: { status: 429, retryable: true },
+  upstream_client_error: { status: 502, retryable: false },
+  upstream_server_error: { status: 502, retryable: true },
+  upstream_malformed: { status: 502, retryable: true },
+  internal_error: { status: 500, retryable: false },
+};
+
+// Upstream statuses that mean the AI service gave up waiting
+const TIMEOUT_STATUSES = [408, 504, 524];
+
+export class ApiError extends Error {
+  readonly code: ErrorCode;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: ErrorCode, message: string, details?: Record<string, unknown>) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.details = details;
+  }
+
+  get status(): number {
+    return ERROR_DEFAULTS[this.code].status;
+  }
+
+  get retryable(): boolean {
+    return ERROR_DEFAULTS[this.code].retryable;
+  }
+
+  toDetail(): ErrorDetail {
+    const detail: ErrorDetail = { code: this.code, message: this.message, retryable: this.retryable };
+    if (this.details) {
+      detail.details = this.details;
+    }
+    return detail;
+  }
+}
+
+/**
+ * Classify a non-2xx response from the AI provider
+ */
+export function upstreamStatusError(status: number): ApiError {
+  const details = { upstreamStatus: status };
+  if (TIMEOUT_STATUSES.includes(status)) {
+    return new ApiError('upstream_timeout', 'The AI service took too long to respond. Please try again.', details);
+  }
+  if (status === 429) {
+    return new ApiError('upstream_rate_limited', 'The AI service is busy. Please wait a moment.', details);
+  }
+  if (status >= 500) {
+    return new ApiError('upstream_server_error', 'AI service error. Please try again later.', details);
+  }
+  return new ApiError('upstream_client_error', 'The AI service rejected the request.', details);
+}
+
+/**
+ * Classify an exception thrown while calling the AI provider
+ */
+export function upstreamFailure(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return new ApiError('upstream_timeout', 'The AI service took too long to respond. Please try again.');
+  }
+  return new ApiError('upstream_server_error', 'Could not reach the AI service. Please try again later.');
+}
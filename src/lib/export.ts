@@ -0,0 +1,225 @@
+/**
+ * Conversation export and import
+ * JSON exports carry the whole message tree and round-trip through
+ * `parseConversationExport`; Markdown and HTML exports are read-only
+ * renderings of the active branch.
+ */
+
+import { ApiError } from './errors';
+import { isRecord } from './http';
+import { escapeHtml, renderDetails, renderMessage, renderPage } from './render';
+import {
+  activePath,
+  parseMessage,
+  DEFAULT_TITLE,
+  MAX_TITLE_CHARS,
+  type Conversation,
+  type ImportedConversation,
+  type StoredMessage,
+} from './store';
+
+export const EXPORT_FORMAT = 'chatbgd.conversation';
+export const EXPORT_VERSION = 1;
+
+export const EXPORT_FORMATS = ['markdown', 'json', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// Largest conversation accepted by import. KV values are capped at 25 MiB;
+// the byte limit leaves room for the turns added after the import.
+const MAX_IMPORT_MESSAGES = 2000;
+const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+export interface ConversationExport {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  conversation: Omit<Conversation, 'id' | 'autoTitle' | 'summary'>;
+}
+
+export interface ExportFile {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+function invalid(field: string, message: string): ApiError {
+  return new ApiError('validation_error', `Invalid import: ${message}`, { field });
+}
+
+function isTimestamp(value: unknown): value is string {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * File name derived from the title, safe for Content-Disposition
+ */
+function exportFilename(conversation: Conversation, extension: string): string {
+  const slug = conversation.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${slug || 'conversation'}.${extension}`;
+}
+
+/**
+ * Model, reasoning level, preset, attachment names and time shown alongside
+ * each message
+ */
+function messageMeta(message: StoredMessage): string[] {
+  const meta: string[] = [];
+  if (message.role === 'assistant' && message.model) meta.push(message.model);
+  if (message.role === 'assistant' && message.reasoningLevel) meta.push(`reasoning: ${message.reasoningLevel}`);
+  if (message.role === 'assistant' && message.preset) meta.push(`preset: ${message.preset.name}`);
+  // Share snapshots taken before attachments existed have no list
+  if (message.attachments?.length) meta.push(`attached: ${message.attachments.map(attachment => attachment.name).join(', ')}`);
+  meta.push(message.createdAt);
+  return meta;
+}
+
+export function toJsonExport(conversation: Conversation): ConversationExport {
+  const { title, createdAt, updatedAt, activeLeafId, messages } = conversation;
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversation: { title, createdAt, updatedAt, activeLeafId, messages },
+  };
+}
+
+export function toMarkdown(conversation: Conversation): string {
+  const lines = [`# ${conversation.title}`, '', `_Created ${conversation.createdAt} · Updated ${conversation.updatedAt}_`, ''];
+
+  for (const message of activePath(conversation)) {
+    lines.push(`## ${message.role === 'user' ? 'User' : 'Assistant'}`, '', `_${messageMeta(message).join(' · ')}_`, '');
+
+    if (message.role === 'assistant' && message.instructions) {
+      lines.push('<details><summary>Instructions</summary>', '', message.instructions, '', '</details>', '');
+    }
+    if (message.reasoning) {
+      lines.push('<details><summary>Reasoning</summary>', '', message.reasoning, '', '</details>', '');
+    }
+    lines.push(message.content, '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Chat bubbles for a branch, with each message's metadata and any reasoning
+ * and instructions it carries
+ */
+export function renderMessages(messages: StoredMessage[]): string {
+  return messages.map(message => {
+    let extras = `\n            <div class="message-meta">${escapeHtml(messageMeta(message).join(' · '))}</div>`;
+    if (message.role === 'assistant' && message.instructions) {
+      extras += `\n            ${renderDetails('Instructions', message.instructions)}`;
+    }
+    if (message.reasoning) {
+      extras += `\n            ${renderDetails('Reasoning', message.reasoning)}`;
+    }
+    return renderMessage(message.role, message.content, extras);
+  }).join('\n');
+}
+
+export function toHtml(conversation: Conversation): string {
+  return renderPage({
+    title: conversation.title,
+    subtitle: escapeHtml(`Created ${conversation.createdAt} · Updated ${conversation.updatedAt}`),
+    body: renderMessages(activePath(conversation)),
+  });
+}
+
+/**
+ * Render a conversation in the requested export format
+ */
+export function exportConversation(conversation: Conversation, format: ExportFormat): ExportFile {
+  switch (format) {
+    case 'markdown':
+      return {
+        body: toMarkdown(conversation),
+        contentType: 'text/markdown; charset=UTF-8',
+        filename: exportFilename(conversation, 'md'),
+      };
+    case 'html':
+      return {
+        body: toHtml(conversation),
+        contentType: 'text/html; charset=UTF-8',
+        filename: exportFilename(conversation, 'html'),
+      };
+    case 'json':
+      return {
+        body: JSON.stringify(toJsonExport(conversation), null, 2),
+        contentType: 'application/json; charset=UTF-8',
+        filename: exportFilename(conversation, 'json'),
+      };
+  }
+}
+
+/**
+ * Validate an untrusted JSON export. Throws a `validation_error` naming the
+ * offending field; the tree must be intact (unique ids, known parents).
+ */
+export function parseConversationExport(body: unknown): ImportedConversation {
+  if (!isRecord(body)) {
+    throw invalid('body', 'body must be a JSON object');
+  }
+  const { format, version, conversation } = body;
+
+  if (format !== EXPORT_FORMAT) {
+    throw invalid('format', `format must be "${EXPORT_FORMAT}"`);
+  }
+  if (version !== EXPORT_VERSION) {
+    throw invalid('version', `unsupported version. Expected ${EXPORT_VERSION}.`);
+  }
+  if (!isRecord(conversation)) {
+    throw invalid('conversation', 'conversation must be an object');
+  }
+
+  const title = typeof conversation.title === 'string' ? conversation.title.trim() : '';
+  if (title.length > MAX_TITLE_CHARS) {
+    throw invalid('title', `title must be at most ${MAX_TITLE_CHARS} characters`);
+  }
+
+  const rawMessages = conversation.messages;
+  if (!Array.isArray(rawMessages) || rawMessages.length > MAX_IMPORT_MESSAGES) {
+    throw invalid('messages', `messages must be an array of at most ${MAX_IMPORT_MESSAGES} turns`);
+  }
+
+  const ids = new Set<string>();
+  const messages: StoredMessage[] = [];
+  for (const raw of rawMessages) {
+    const message = parseMessage(raw);
+    if (!isRecord(raw) || !message?.id || ids.has(message.id)) {
+      throw invalid('messages', 'every message needs a unique id, a user/assistant role and string content');
+    }
+
+    // Parents always precede their children in creation order
+    const parentId = raw.parentId ?? null;
+    if (parentId !== null && (typeof parentId !== 'string' || !ids.has(parentId))) {
+      throw invalid('messages', `message ${message.id} has an unknown parentId`);
+    }
+    if (!isTimestamp(raw.createdAt)) {
+      throw invalid('messages', `message ${message.id} has an invalid createdAt`);
+    }
+
+    ids.add(message.id);
+    messages.push({ ...message, id: message.id, parentId, createdAt: raw.createdAt });
+  }
+
+  const activeLeafId = conversation.activeLeafId ?? messages[messages.length - 1]?.id ?? null;
+  if (activeLeafId !== null && (typeof activeLeafId !== 'string' || !ids.has(activeLeafId))) {
+    throw invalid('activeLeafId', 'activeLeafId is not a message in this conversation');
+  }
+
+  const imported: ImportedConversation = {
+    title: title || DEFAULT_TITLE,
+    createdAt: isTimestamp(conversation.createdAt) ? conversation.createdAt : new Date().toISOString(),
+    activeLeafId,
+    messages,
+  };
+  if (new TextEncoder().encode(JSON.stringify(imported)).byteLength > MAX_IMPORT_BYTES) {
+    throw invalid('conversation', `conversation is too large. Maximum ${MAX_IMPORT_BYTES / 1024 / 1024} MB once stored.`);
+  }
+  return imported;
+}
@@ -0,0 +1,83 @@
+/**
+ * Readiness
+ * `/readyz` reports whether the upstream AI service answers. Probes can cost
+ * a model call, so each result is reused for HEALTH_CACHE_SECONDS (default
+ * 60): within an isolate from memory, and across isolates in a data centre
+ * through the Cache API (which is a no-op on workers.dev). A probe that
+ * times out reports the upstream as down.
+ */
+
+import type { Env } from '../index';
+import { checkUpstream, type UpstreamCheck } from './diagnostics';
+import { errorFields, type Logger } from './log';
+
+export type ReadinessStatus = 'ready' | 'degraded' | 'down';
+
+export interface Readiness {
+  status: ReadinessStatus;
+  checkedAt: string;
+}
+
+const DEFAULT_CACHE_SECONDS = 60;
+
+// A probe slower than this still counts, but as degraded
+const SLOW_PROBE_MS = 5000;
+
+// Cache API keys must be URLs; this one never leaves the worker
+const CACHE_URL = 'https://readiness.chat-bgd.internal/';
+
+// Recent results in this isolate, by provider
+const recent = new Map<string, { readiness: Readiness; expiresAt: number }>();
+
+/**
+ * Seconds a probe result is reused; 0 probes on every request
+ */
+export function healthCacheSeconds(env: Env): number {
+  const seconds = Number(env.HEALTH_CACHE_SECONDS);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_CACHE_SECONDS;
+}
+
+/**
+ * Ready when the probe succeeded quickly; degraded when it was slow or the
+ * upstream is rate limiting; down otherwise
+ */
+export function readinessOf(check: UpstreamCheck): ReadinessStatus {
+  if (check.healthy) return check.durationMs > SLOW_PROBE_MS ? 'degraded' : 'ready';
+  return check.status === 429 ? 'degraded' : 'down';
+}
+
+/**
+ * The cached upstream check, or a fresh one once the cached result expires
+ */
+export async function getReadiness(env: Env, ctx: ExecutionContext, log: Logger): Promise<Readiness> {
+  const ttl = healthCacheSeconds(env);
+  const key = env.AI_PROVIDER || 'default';
+  const cacheKey = new Request(CACHE_URL + encodeURIComponent(key));
+
+  if (ttl > 0) {
+    const memo = recent.get(key);
+    if (memo && memo.expiresAt > Date.now()) return memo.readiness;
+
+    const cached = await caches.default.match(cacheKey);
+    if (cached) return cached.json<Readiness>();
+  }
+
+  let readiness: Readiness;
+  try {
+    const check = await checkUpstream(env);
+    readiness = { status: readinessOf(check), checkedAt: check.checkedAt };
+    log.info('readiness', { provider: check.provider, status: readiness.status, upstreamStatus: check.status, durationMs: check.durationMs });
+  } catch (error) {
+    log.error('readiness.failed', errorFields(error));
+    readiness = { status: 'down', checkedAt: new Date().toISOString() };
+  }
+
+  if (ttl > 0) {
+    recent.set(key, { readiness, expiresAt: Date.now() + ttl * 1000 });
+    const response = new Response(JSON.stringify(readiness), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': `max-age=${ttl}` },
+    });
+    ctx.waitUntil(caches.default.put(cacheKey, response));
+  }
+  return readiness;
+}
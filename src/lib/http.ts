@@ -0,0 +1,100 @@
+/**
+ * Shared HTTP response helpers, and narrowing for untrusted JSON
+ */
+
+import { ApiError, type ErrorCode, type ErrorEnvelope } from './errors';
+
+/**
+ * JSON response
+ */
+export function jsonResponse(data: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...headers,
+    },
+  });
+}
+
+/**
+ * Content-Disposition for a download. Header values must be Latin-1, so the
+ * real name goes in `filename*` (RFC 5987) and `filename` gets an ASCII copy
+ * for clients that ignore it.
+ */
+export function attachmentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/gu, '_');
+  const encoded = encodeURIComponent(filename).replace(/['()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Whether a browser sent the request from another site. Browsers attach
+ * `Origin` to every cross-origin write, and `Sec-Fetch-Site` where they
+ * support it; clients that send neither (curl, scripts) are not browsers.
+ */
+export function isCrossSiteRequest(request: Request): boolean {
+  const origin = request.headers.get('Origin');
+  if (origin) return origin !== new URL(request.url).origin;
+  return request.headers.get('Sec-Fetch-Site') === 'cross-site';
+}
+
+/**
+ * JSON error response in the `{error: {code, message, retryable, details}}` envelope
+ */
+export function errorResponse(
+  code: ErrorCode,
+  message: string,
+  details?: Record<string, unknown>,
+  headers: Record<string, string> = {}
+): Response {
+  return apiErrorResponse(new ApiError(code, message, details), headers);
+}
+
+/**
+ * Error envelope response for an ApiError, using the code's HTTP status. A
+ * numeric `retryAfter` detail is also sent as a Retry-After header.
+ */
+export function apiErrorResponse(error: ApiError, headers: Record<string, string> = {}): Response {
+  const body: ErrorEnvelope = { error: error.toDetail() };
+  const retryAfter = error.details?.retryAfter;
+  if (typeof retryAfter === 'number' && !('Retry-After' in headers)) {
+    headers = { ...headers, 'Retry-After': String(retryAfter) };
+  }
+  return jsonResponse(body, error.status, headers);
+}
+
+/**
+ * Parse a JSON request body, returning null if it is missing or malformed
+ */
+export async function readJson<T = unknown>(request: Request): Promise<T | null> {
+  try {
+    return await request.json() as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a JSON request body that should be an object, returning null when it
+ * is missing, malformed or any other JSON value. Its fields still need
+ * checking one by one.
+ */
+export async function readJsonObject(request: Request): Promise<Record<string, unknown> | null> {
+  const body = await readJson(request);
+  return isRecord(body) ? body : null;
+}
+
+/**
+ * Whether an untrusted value is a JSON object
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * An untrusted value's items when it is an array, otherwise none
+ */
+export function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
@@ -0,0 +1,127 @@
+/**
+ * Structured logging
+ * Every line is a single JSON object, so Workers Logs can filter and
+ * aggregate on its fields. A request's logger stamps each line with the
+ * request id that is also returned to the client as X-Request-Id.
+ *
+ * LOG_LEVEL picks the lowest level written (default "info"). Header values
+ * and user or model text are redacted unless LOG_BODIES is "true", which is
+ * meant for local development only.
+ */
+
+import type { Env } from '../index';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  readonly requestId: string | null;
+  // Whether header values and message text may be written as they are
+  readonly bodies: boolean;
+  debug(event: string, fields?: LogFields): void;
+  info(event: string, fields?: LogFields): void;
+  warn(event: string, fields?: LogFields): void;
+  error(event: string, fields?: LogFields): void;
+}
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Ids a client or upstream proxy may pass in and have echoed back
+const REQUEST_ID_PATTERN = /^[\w.:-]{8,128}$/;
+
+// Headers whose values never carry credentials or user content
+const SAFE_HEADERS = new Set([
+  'accept',
+  'accept-encoding',
+  'accept-language',
+  'cf-ipcountry',
+  'cf-ray',
+  'content-length',
+  'content-type',
+  'user-agent',
+  'x-request-id',
+]);
+
+function parseLevel(value: string | undefined): LogLevel {
+  return value && value in LEVELS ? value as LogLevel : 'info';
+}
+
+/**
+ * A logger for one request, or for work outside any request when
+ * `requestId` is null
+ */
+export function createLogger(env: Pick<Env, 'LOG_LEVEL' | 'LOG_BODIES'>, requestId: string | null = null): Logger {
+  const threshold = LEVELS[parseLevel(env.LOG_LEVEL)];
+
+  const write = (level: LogLevel, event: string, fields: LogFields = {}) => {
+    if (LEVELS[level] < threshold) return;
+    const line = JSON.stringify({ level, event, ...(requestId ? { requestId } : {}), ...fields });
+    if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  };
+
+  return {
+    requestId,
+    bodies: env.LOG_BODIES === 'true',
+    debug: (event, fields) => write('debug', event, fields),
+    info: (event, fields) => write('info', event, fields),
+    warn: (event, fields) => write('warn', event, fields),
+    error: (event, fields) => write('error', event, fields),
+  };
+}
+
+/**
+ * The caller's X-Request-Id when it looks like an id, otherwise a new one
+ */
+export function requestIdFor(request: Request): string {
+  const incoming = request.headers.get(REQUEST_ID_HEADER);
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+}
+
+/**
+ * Copy a response with the request id header added. Responses from
+ * `Response.redirect` and `fetch` have immutable headers, so they are copied
+ * rather than changed in place.
+ */
+export function withRequestId(response: Response, requestId: string): Response {
+  const tagged = new Response(response.body, response);
+  tagged.headers.set(REQUEST_ID_HEADER, requestId);
+  return tagged;
+}
+
+/**
+ * Headers as a plain object, with values redacted unless known to be safe
+ */
+export function loggedHeaders(log: Logger, headers: Headers): Record<string, string> {
+  const logged: Record<string, string> = {};
+  for (const [name, value] of headers) {
+    logged[name] = log.bodies || SAFE_HEADERS.has(name) ? value : '[redacted]';
+  }
+  return logged;
+}
+
+/**
+ * User or model text, replaced by its length unless bodies are logged
+ */
+export function loggedText(log: Logger, text: string | null | undefined): string | null {
+  if (text == null) return null;
+  return log.bodies ? text : `[${text.length} chars]`;
+}
+
+/**
+ * Fields describing a caught error
+ */
+export function errorFields(error: unknown): LogFields {
+  if (error instanceof Error) {
+    return { error: { name: error.name, message: error.message, stack: error.stack } };
+  }
+  return { error: { message: String(error) } };
+}
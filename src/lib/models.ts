@@ -0,0 +1,79 @@
+/**
+ * Model allowlist
+ * Admins configure the models users may pick through the MODELS var in
+ * wrangler.toml; the first entry is the default.
+ */
+
+import type { Env } from '../index';
+import { MAX_HISTORY_CHARS } from './conversation';
+import { createLogger } from './log';
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  contextLimit: number;
+  supportsReasoning: boolean;
+  // Accepts image attachments
+  supportsVision?: boolean;
+  // Can call the worker's tools
+  supportsTools?: boolean;
+}
+
+const DEFAULT_MODELS: ModelInfo[] = [
+  { id: '@cf/openai/gpt-oss-120b', name: 'GPT-OSS 120B', contextLimit: 128000, supportsReasoning: true },
+];
+
+function isModelInfo(value: unknown): value is ModelInfo {
+  if (!value || typeof value !== 'object') return false;
+  const { id, name, contextLimit, supportsReasoning, supportsVision, supportsTools } = value as Record<string, unknown>;
+  return typeof id === 'string' && id.length > 0
+    && typeof name === 'string'
+    && typeof contextLimit === 'number' && contextLimit > 0
+    && typeof supportsReasoning === 'boolean'
+    && (supportsVision === undefined || typeof supportsVision === 'boolean')
+    && (supportsTools === undefined || typeof supportsTools === 'boolean');
+}
+
+/**
+ * Read the configured allowlist. MODELS may be a JSON array (wrangler.toml)
+ * or a JSON string (.dev.vars); invalid entries are skipped.
+ */
+export function getModels(env: Env): ModelInfo[] {
+  let configured: unknown = env.MODELS;
+
+  if (typeof configured === 'string') {
+    try {
+      configured = JSON.parse(configured);
+    } catch {
+      createLogger(env).error('config.invalid', { variable: 'MODELS' });
+      return DEFAULT_MODELS;
+    }
+  }
+
+  if (!Array.isArray(configured)) {
+    return DEFAULT_MODELS;
+  }
+
+  const models = configured.filter(isModelInfo);
+  return models.length > 0 ? models : DEFAULT_MODELS;
+}
+
+/**
+ * Resolve a requested model id against the allowlist. Returns the default
+ * model when none is requested, or null when the id is not allowed.
+ */
+export function resolveModel(env: Env, id: unknown): ModelInfo | null {
+  const models = getModels(env);
+  if (id === undefined || id === null || id === '') {
+    return models[0];
+  }
+  return models.find(model => model.id === id) ?? null;
+}
+
+/**
+ * History budget for a model: at most half its context window
+ * (about 2 characters per context token), capped by the global budget
+ */
+export function historyBudgetChars(model: ModelInfo): number {
+  return Math.min(MAX_HISTORY_CHARS, model.contextLimit * 2);
+}
@@ -0,0 +1,276 @@
+/**
+ * Upstream output parsing
+ * Normalises the reply bodies we get back from providers - Responses-style
+ * `output` arrays, chat-completions `choices`, and the plain `{response}`
+ * shape from Workers AI - into one structured result.
+ */
+
+import { asArray, isRecord } from './http';
+import type { TokenUsage } from './streaming';
+
+export interface Citation {
+  type: string;
+  url?: string;
+  title?: string;
+  fileId?: string;
+  filename?: string;
+  // Character range in `response` the citation refers to, when known
+  startIndex?: number;
+  endIndex?: number;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  // JSON-encoded arguments, exactly as the model produced them
+  arguments: string;
+}
+
+export interface ParsedOutput {
+  response: string;
+  reasoning: string | null;
+  refusal: string | null;
+  citations: Citation[];
+  toolCalls: ToolCall[];
+  usage: TokenUsage | null;
+}
+
+// Separator between consecutive assistant messages in one reply
+const MESSAGE_SEPARATOR = '\n\n';
+
+// Citations kept with a saved reply
+export const MAX_STORED_CITATIONS = 100;
+
+function emptyOutput(): ParsedOutput {
+  return { response: '', reasoning: null, refusal: null, citations: [], toolCalls: [], usage: null };
+}
+
+function joinText(parts: string[]): string | null {
+  const text = parts.filter(Boolean).join(MESSAGE_SEPARATOR);
+  return text || null;
+}
+
+function asString(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (value == null) return null;
+  return JSON.stringify(value, null, 2);
+}
+
+/**
+ * Whether a parsed reply has anything to show or act on
+ */
+export function hasOutput(output: ParsedOutput): boolean {
+  return Boolean(output.response || output.refusal || output.toolCalls.length > 0);
+}
+
+/**
+ * Normalise Responses (`input_tokens`) and chat-completions (`prompt_tokens`)
+ * usage objects
+ */
+export function parseUsage(value: unknown): TokenUsage | null {
+  if (!isRecord(value)) return null;
+
+  const input = value.input_tokens ?? value.prompt_tokens;
+  const output = value.output_tokens ?? value.completion_tokens;
+  const usage: TokenUsage = {};
+  if (typeof input === 'number') usage.input_tokens = input;
+  if (typeof output === 'number') usage.output_tokens = output;
+  if (typeof value.total_tokens === 'number') usage.total_tokens = value.total_tokens;
+
+  return Object.keys(usage).length > 0 ? usage : null;
+}
+
+/**
+ * Convert a Responses or chat-completions annotation into a citation.
+ * `offset` shifts its character range to account for preceding text.
+ */
+export function parseAnnotation(annotation: unknown, offset: number = 0): Citation | null {
+  if (!isRecord(annotation)) return null;
+
+  // chat-completions nests the details under the type name
+  const source = isRecord(annotation.url_citation) ? annotation.url_citation : annotation;
+  const citation: Citation = { type: typeof annotation.type === 'string' ? annotation.type : 'citation' };
+
+  if (typeof source.url === 'string') citation.url = source.url;
+  if (typeof source.title === 'string') citation.title = source.title;
+  if (typeof source.file_id === 'string') citation.fileId = source.file_id;
+  if (typeof source.filename === 'string') citation.filename = source.filename;
+  if (typeof source.start_index === 'number') citation.startIndex = source.start_index + offset;
+  if (typeof source.end_index === 'number') citation.endIndex = source.end_index + offset;
+
+  return citation.url || citation.fileId || citation.filename ? citation : null;
+}
+
+/**
+ * Validate a stored message's citations, returning undefined when they are
+ * malformed. Only the first MAX_STORED_CITATIONS are kept.
+ */
+export function parseCitations(value: unknown): Citation[] | undefined {
+  if (value == null) return [];
+  if (!Array.isArray(value)) return undefined;
+
+  const citations: Citation[] = [];
+  for (const item of value.slice(0, MAX_STORED_CITATIONS)) {
+    const { type, url, title, fileId, filename, startIndex, endIndex } = (item ?? {}) as Record<string, unknown>;
+    if (typeof type !== 'string') return undefined;
+    if ([url, title, fileId, filename].some(field => field != null && typeof field !== 'string')) return undefined;
+    if ([startIndex, endIndex].some(index => index != null && !Number.isInteger(index))) return undefined;
+
+    const citation: Citation = { type };
+    if (typeof url === 'string') citation.url = url;
+    if (typeof title === 'string') citation.title = title;
+    if (typeof fileId === 'string') citation.fileId = fileId;
+    if (typeof filename === 'string') citation.filename = filename;
+    if (typeof startIndex === 'number') citation.startIndex = startIndex;
+    if (typeof endIndex === 'number') citation.endIndex = endIndex;
+    citations.push(citation);
+  }
+  return citations;
+}
+
+/**
+ * Normalise a tool call from any of the upstream shapes
+ */
+export function parseToolCall(item: unknown, index: number): ToolCall | null {
+  // Responses: {type: 'function_call', call_id, name, arguments}
+  // chat-completions: {id, type: 'function', function: {name, arguments}}
+  // Workers AI: {name, arguments: object}
+  if (!isRecord(item)) return null;
+  const fn = isRecord(item.function) ? item.function : item;
+  if (typeof fn.name !== 'string') return null;
+
+  const args = fn.arguments;
+  return {
+    id: String(item.call_id ?? item.id ?? `call_${index}`),
+    name: fn.name,
+    arguments: typeof args === 'string' ? args : JSON.stringify(args ?? {}),
+  };
+}
+
+/**
+ * Parse a Responses-style body. Every assistant message contributes its
+ * `output_text` parts (concatenated) and `refusal` parts; reasoning comes
+ * from `reasoning` items, preferring full reasoning text over summaries.
+ * Bodies without an `output` array fall back to the simpler shapes.
+ */
+export function parseResponsesOutput(aiData: unknown): ParsedOutput {
+  if (!isRecord(aiData) || !Array.isArray(aiData.output)) {
+    return parseSimpleOutput(aiData);
+  }
+
+  const result = emptyOutput();
+  const messages: string[] = [];
+  const refusals: string[] = [];
+  const reasoning: string[] = [];
+  const summaries: string[] = [];
+  let textLength = 0;
+
+  for (const item of asArray(aiData.output)) {
+    if (!isRecord(item)) continue;
+
+    if (item.type === 'message' && (item.role === undefined || item.role === 'assistant')) {
+      let text = '';
+      const offset = textLength + (messages.length > 0 ? MESSAGE_SEPARATOR.length : 0);
+
+      for (const part of asArray(item.content)) {
+        if (!isRecord(part)) continue;
+
+        if (part.type === 'output_text' && typeof part.text === 'string') {
+          for (const annotation of asArray(part.annotations)) {
+            const citation = parseAnnotation(annotation, offset + text.length);
+            if (citation) result.citations.push(citation);
+          }
+          text += part.text;
+        } else if (part.type === 'refusal' && typeof part.refusal === 'string') {
+          refusals.push(part.refusal);
+        } else if (part.type === 'reasoning_text' && typeof part.text === 'string') {
+          // Some gpt-oss deployments inline reasoning into the message
+          reasoning.push(part.text);
+        }
+      }
+
+      if (text) {
+        textLength = offset + text.length;
+        messages.push(text);
+      }
+    } else if (item.type === 'reasoning') {
+      for (const part of asArray(item.content)) {
+        if (isRecord(part) && part.type === 'reasoning_text' && typeof part.text === 'string') reasoning.push(part.text);
+      }
+      for (const part of asArray(item.summary)) {
+        if (isRecord(part) && part.type === 'summary_text' && typeof part.text === 'string') summaries.push(part.text);
+      }
+    } else if (item.type === 'function_call') {
+      const call = parseToolCall(item, result.toolCalls.length);
+      if (call) result.toolCalls.push(call);
+    }
+  }
+
+  result.response = messages.join(MESSAGE_SEPARATOR);
+  if (!result.response && typeof aiData.output_text === 'string') {
+    result.response = aiData.output_text;
+  }
+  result.reasoning = joinText(reasoning) ?? joinText(summaries);
+  result.refusal = joinText(refusals);
+  result.usage = parseUsage(aiData.usage);
+  return result;
+}
+
+/**
+ * Parse a chat-completions body (`choices[0].message`)
+ */
+export function parseChatCompletionOutput(aiData: unknown): ParsedOutput {
+  const choice = isRecord(aiData) ? asArray(aiData.choices)[0] : undefined;
+  const message = isRecord(choice) ? choice.message : undefined;
+  if (!isRecord(aiData) || !isRecord(message)) {
+    return parseSimpleOutput(aiData);
+  }
+
+  const result = emptyOutput();
+  result.response = typeof message.content === 'string' ? message.content : '';
+  result.reasoning = asString(message.reasoning_content ?? message.reasoning) || null;
+  result.refusal = typeof message.refusal === 'string' && message.refusal ? message.refusal : null;
+
+  for (const annotation of asArray(message.annotations)) {
+    const citation = parseAnnotation(annotation);
+    if (citation) result.citations.push(citation);
+  }
+  for (const call of asArray(message.tool_calls)) {
+    const parsed = parseToolCall(call, result.toolCalls.length);
+    if (parsed) result.toolCalls.push(parsed);
+  }
+
+  result.usage = parseUsage(aiData.usage);
+  return result;
+}
+
+/**
+ * Parse the plain shapes: `{response}` from Workers AI text models,
+ * `{text}`, `{message}`, or a bare string
+ */
+function parseSimpleOutput(aiData: unknown): ParsedOutput {
+  const result = emptyOutput();
+  if (typeof aiData === 'string') {
+    result.response = aiData;
+    return result;
+  }
+  if (!isRecord(aiData)) {
+    return result;
+  }
+
+  for (const key of ['response', 'text', 'message']) {
+    const value = aiData[key];
+    if (typeof value === 'string' && value) {
+      result.response = value;
+      break;
+    }
+  }
+
+  result.reasoning = asString(aiData.reasoning) || null;
+  for (const call of asArray(aiData.tool_calls)) {
+    const parsed = parseToolCall(call, result.toolCalls.length);
+    if (parsed) result.toolCalls.push(parsed);
+  }
+  result.usage = parseUsage(aiData.usage);
+  return result;
+}
@@ -0,0 +1,181 @@
+/**
+ * Instruction presets
+ * Team-wide presets come from the INSTRUCTION_PRESETS var in wrangler.toml and
+ * are read-only; each user's own presets are one KV value keyed by owner.
+ */
+
+import type { Env } from '../index';
+import { MAX_INSTRUCTIONS_CHARS } from './conversation';
+import { ApiError } from './errors';
+import { createLogger } from './log';
+
+export interface InstructionPreset {
+  id: string;
+  name: string;
+  instructions: string;
+  // Team presets are defined in worker config and cannot be edited
+  team: boolean;
+}
+
+// What a stored message records about the preset it was sent with
+export interface PresetRef {
+  id: string;
+  name: string;
+}
+
+export interface PresetChanges {
+  name?: string;
+  instructions?: string;
+}
+
+export const MAX_PRESET_NAME_CHARS = 50;
+export const MAX_PRESETS = 50;
+
+const PRESET_ID_PATTERN = /^[\w-]{1,64}$/;
+const KEY_PREFIX = 'presets:';
+
+function presetsKey(owner: string): string {
+  return KEY_PREFIX + encodeURIComponent(owner);
+}
+
+function invalid(field: string, message: string): ApiError {
+  return new ApiError('validation_error', `Invalid request: ${message}`, { field });
+}
+
+function isPresetConfig(value: unknown): value is Omit<InstructionPreset, 'team'> {
+  if (!value || typeof value !== 'object') return false;
+  const { id, name, instructions } = value as Record<string, unknown>;
+  return typeof id === 'string' && PRESET_ID_PATTERN.test(id)
+    && typeof name === 'string' && name.length > 0
+    && typeof instructions === 'string' && instructions.length <= MAX_INSTRUCTIONS_CHARS;
+}
+
+/**
+ * Read the team presets. INSTRUCTION_PRESETS may be a JSON array
+ * (wrangler.toml) or a JSON string (.dev.vars); invalid entries are skipped.
+ */
+export function getTeamPresets(env: Env): InstructionPreset[] {
+  let configured: unknown = env.INSTRUCTION_PRESETS;
+
+  if (typeof configured === 'string') {
+    try {
+      configured = JSON.parse(configured);
+    } catch {
+      createLogger(env).error('config.invalid', { variable: 'INSTRUCTION_PRESETS' });
+      return [];
+    }
+  }
+
+  if (!Array.isArray(configured)) {
+    return [];
+  }
+
+  return configured.filter(isPresetConfig).map(({ id, name, instructions }) => ({ id, name, instructions, team: true }));
+}
+
+async function getUserPresets(kv: KVNamespace, owner: string): Promise<InstructionPreset[]> {
+  return await kv.get<InstructionPreset[]>(presetsKey(owner), 'json') ?? [];
+}
+
+async function saveUserPresets(kv: KVNamespace, owner: string, presets: InstructionPreset[]): Promise<void> {
+  await kv.put(presetsKey(owner), JSON.stringify(presets));
+}
+
+/**
+ * Team presets followed by the caller's own, in creation order
+ */
+export async function listPresets(env: Env, owner: string): Promise<InstructionPreset[]> {
+  const own = env.CONVERSATIONS ? await getUserPresets(env.CONVERSATIONS, owner) : [];
+  return [...getTeamPresets(env), ...own];
+}
+
+/**
+ * Find a preset the caller may use, or null when the id is unknown
+ */
+export async function resolvePreset(env: Env, owner: string, id: string): Promise<InstructionPreset | null> {
+  const presets = await listPresets(env, owner);
+  return presets.find(preset => preset.id === id) ?? null;
+}
+
+/**
+ * Validate preset fields from an untrusted body. `partial` allows either
+ * field to be omitted, for updates.
+ */
+export function parsePresetChanges(body: unknown, partial: boolean = false): PresetChanges {
+  const changes: PresetChanges = {};
+  const { name, instructions } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (name !== undefined || !partial) {
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > MAX_PRESET_NAME_CHARS) {
+      throw invalid('name', `name must be 1-${MAX_PRESET_NAME_CHARS} characters`);
+    }
+    changes.name = name.trim();
+  }
+
+  if (instructions !== undefined || !partial) {
+    if (typeof instructions !== 'string' || !instructions.trim()) {
+      throw invalid('instructions', 'instructions are required');
+    }
+    if (instructions.trim().length > MAX_INSTRUCTIONS_CHARS) {
+      throw invalid('instructions', `instructions are too long. Maximum ${MAX_INSTRUCTIONS_CHARS} characters.`);
+    }
+    changes.instructions = instructions.trim();
+  }
+
+  if (Object.keys(changes).length === 0) {
+    throw invalid('name', 'nothing to update');
+  }
+  return changes;
+}
+
+export async function createPreset(
+  kv: KVNamespace,
+  owner: string,
+  fields: Required<PresetChanges>
+): Promise<InstructionPreset> {
+  const presets = await getUserPresets(kv, owner);
+  if (presets.length >= MAX_PRESETS) {
+    throw invalid('name', `you can save at most ${MAX_PRESETS} presets`);
+  }
+
+  const preset: InstructionPreset = { id: crypto.randomUUID(), ...fields, team: false };
+  presets.push(preset);
+  await saveUserPresets(kv, owner, presets);
+  return preset;
+}
+
+export async function updatePreset(
+  kv: KVNamespace,
+  owner: string,
+  id: string,
+  changes: PresetChanges
+): Promise<InstructionPreset | null> {
+  const presets = await getUserPresets(kv, owner);
+  const preset = presets.find(candidate => candidate.id === id);
+  if (!preset) return null;
+
+  Object.assign(preset, changes);
+  await saveUserPresets(kv, owner, presets);
+  return preset;
+}
+
+export async function deletePreset(kv: KVNamespace, owner: string, id: string): Promise<boolean> {
+  const presets = await getUserPresets(kv, owner);
+  const remaining = presets.filter(preset => preset.id !== id);
+  if (remaining.length === presets.length) return false;
+
+  await saveUserPresets(kv, owner, remaining);
+  return true;
+}
+
+/**
+ * Validate a stored message's preset reference, returning undefined when it
+ * is malformed
+ */
+export function parsePresetRef(value: unknown): PresetRef | null | undefined {
+  if (value == null) return null;
+  const { id, name } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !PRESET_ID_PATTERN.test(id)) return undefined;
+  if (typeof name !== 'string' || name.length > MAX_PRESET_NAME_CHARS) return undefined;
+  return { id, name };
+}
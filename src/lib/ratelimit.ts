@@ -0,0 +1,211 @@
+/**
+ * Rate limiting and daily quotas
+ * One RateLimiter Durable Object per subject (user id, or IP for anonymous
+ * callers) keeps a sliding one-minute request window plus daily message and
+ * token counters, so limits hold across every worker isolate.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { Env } from '../index';
+import type { Identity } from './auth';
+import { estimateTokens } from './conversation';
+import type { TokenUsage } from './streaming';
+
+export interface RateLimits {
+  perMinute: number;
+  dailyMessages: number;
+  dailyTokens: number;
+}
+
+export interface QuotaStatus {
+  allowed: boolean;
+  reason: 'minute' | 'messages' | 'tokens' | null;
+  retryAfter: number;
+  minute: { limit: number; remaining: number; reset: number };
+  daily: {
+    messageLimit: number;
+    messagesRemaining: number;
+    tokenLimit: number;
+    tokensRemaining: number;
+    reset: number;
+  };
+}
+
+interface DailyUsage {
+  date: string;
+  messages: number;
+  tokens: number;
+}
+
+const WINDOW_MS = 60 * 1000;
+
+const DEFAULT_LIMITS: RateLimits = {
+  perMinute: 20,
+  dailyMessages: 500,
+  dailyTokens: 1000000,
+};
+
+function utcDate(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+export class RateLimiter extends DurableObject<Env> {
+  private async load(now: number): Promise<{ requests: number[]; daily: DailyUsage }> {
+    const requests = (await this.ctx.storage.get<number[]>('requests')) ?? [];
+    let daily = await this.ctx.storage.get<DailyUsage>('daily');
+    if (!daily || daily.date !== utcDate(now)) {
+      daily = { date: utcDate(now), messages: 0, tokens: 0 };
+    }
+    return { requests: requests.filter(time => now - time < WINDOW_MS), daily };
+  }
+
+  private evaluate(limits: RateLimits, requests: number[], daily: DailyUsage, now: number): QuotaStatus {
+    const minuteReset = requests.length > 0 ? Math.ceil((requests[0] + WINDOW_MS - now) / 1000) : 0;
+    const dayReset = secondsUntilUtcMidnight(now);
+
+    let reason: QuotaStatus['reason'] = null;
+    let retryAfter = 0;
+    if (daily.messages >= limits.dailyMessages) {
+      reason = 'messages';
+      retryAfter = dayReset;
+    } else if (daily.tokens >= limits.dailyTokens) {
+      reason = 'tokens';
+      retryAfter = dayReset;
+    } else if (requests.length >= limits.perMinute) {
+      reason = 'minute';
+      retryAfter = Math.max(1, minuteReset);
+    }
+
+    return {
+      allowed: reason === null,
+      reason,
+      retryAfter,
+      minute: {
+        limit: limits.perMinute,
+        remaining: Math.max(0, limits.perMinute - requests.length),
+        reset: minuteReset,
+      },
+      daily: {
+        messageLimit: limits.dailyMessages,
+        messagesRemaining: Math.max(0, limits.dailyMessages - daily.messages),
+        tokenLimit: limits.dailyTokens,
+        tokensRemaining: Math.max(0, limits.dailyTokens - daily.tokens),
+        reset: dayReset,
+      },
+    };
+  }
+
+  /**
+   * Count one request if every limit allows it. Every request takes a slot
+   * in the one-minute window; only chat messages count against the daily
+   * message limit.
+   */
+  async consume(limits: RateLimits, countsAsMessage: boolean = true): Promise<QuotaStatus> {
+    const now = Date.now();
+    const { requests, daily } = await this.load(now);
+
+    const before = this.evaluate(limits, requests, daily, now);
+    if (!before.allowed) {
+      return before;
+    }
+
+    requests.push(now);
+    if (countsAsMessage) daily.messages++;
+    await this.ctx.storage.put({ requests, daily });
+
+    // This request was admitted; the remaining counts reflect it
+    return { ...this.evaluate(limits, requests, daily, now), allowed: true, reason: null, retryAfter: 0 };
+  }
+
+  /**
+   * Add tokens used by a completed request to today's budget
+   */
+  async recordTokens(tokens: number): Promise<void> {
+    const now = Date.now();
+    const { daily } = await this.load(now);
+    daily.tokens += Math.max(0, Math.round(tokens));
+    await this.ctx.storage.put('daily', daily);
+  }
+
+  /**
+   * Current quota without counting a request
+   */
+  async status(limits: RateLimits): Promise<QuotaStatus> {
+    const now = Date.now();
+    const { requests, daily } = await this.load(now);
+    return this.evaluate(limits, requests, daily, now);
+  }
+}
+
+/**
+ * Limits from RATE_LIMIT_PER_MINUTE, DAILY_MESSAGE_LIMIT and DAILY_TOKEN_LIMIT
+ */
+export function getRateLimits(env: Env): RateLimits {
+  return {
+    perMinute: Number(env.RATE_LIMIT_PER_MINUTE) || DEFAULT_LIMITS.perMinute,
+    dailyMessages: Number(env.DAILY_MESSAGE_LIMIT) || DEFAULT_LIMITS.dailyMessages,
+    dailyTokens: Number(env.DAILY_TOKEN_LIMIT) || DEFAULT_LIMITS.dailyTokens,
+  };
+}
+
+/**
+ * The limiter instance for a caller: signed-in users are limited by id,
+ * anonymous callers by IP address. Returns null when no binding is configured.
+ */
+export function getRateLimiter(env: Env, request: Request, identity: Identity): DurableObjectStub<RateLimiter> | null {
+  if (!env.RATE_LIMITER) return null;
+
+  const subject = identity.method === 'anonymous'
+    ? `ip:${request.headers.get('cf-connecting-ip') || 'unknown'}`
+    : `user:${identity.id}`;
+  return env.RATE_LIMITER.get(env.RATE_LIMITER.idFromName(subject));
+}
+
+/**
+ * Tokens charged for a request: the upstream's own count when it reports
+ * usage, otherwise an estimate from the prompt and reply text
+ */
+export function tokensUsed(usage: TokenUsage | null | undefined, prompt: string, output: string): number {
+  if (usage?.total_tokens) return usage.total_tokens;
+  if (usage?.input_tokens || usage?.output_tokens) {
+    return (usage.input_tokens || 0) + (usage.output_tokens || 0);
+  }
+  return estimateTokens(prompt) + estimateTokens(output);
+}
+
+/**
+ * X-RateLimit-* headers describing a quota status
+ */
+export function rateLimitHeaders(status: QuotaStatus): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': String(status.minute.limit),
+    'X-RateLimit-Remaining': String(status.minute.remaining),
+    'X-RateLimit-Reset': String(status.minute.reset),
+    'X-RateLimit-Daily-Messages-Remaining': String(status.daily.messagesRemaining),
+    'X-RateLimit-Daily-Tokens-Remaining': String(status.daily.tokensRemaining),
+  };
+  if (!status.allowed) {
+    headers['Retry-After'] = String(status.retryAfter);
+  }
+  return headers;
+}
+
+/**
+ * User-facing explanation for a rejected request
+ */
+export function rateLimitMessage(status: QuotaStatus): string {
+  switch (status.reason) {
+    case 'messages':
+      return 'Daily message limit reached. Your quota resets at midnight UTC.';
+    case 'tokens':
+      return 'Daily token budget used up. Your quota resets at midnight UTC.';
+    default:
+      return 'Too many requests. Please wait a moment.';
+  }
+}
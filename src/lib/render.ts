@@ -0,0 +1,118 @@
+/**
+ * Server-side HTML rendering for standalone pages (exports, shared links)
+ * Markdown is rendered without raw HTML and with an allowlist of link
+ * schemes, so the output is safe to serve from our own origin.
+ */
+
+import { Marked, type Tokens } from 'marked';
+import { staticAssets } from './static';
+
+// Same rule as the chat UI: http(s), mailto and relative URLs only
+const SAFE_URL_PATTERN = /^(?:(?:https?|mailto):|[^a-z]|[a-z+.\-]+(?:[^a-z+.\-:]|$))/i;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const markdown = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    // Raw HTML in a reply is shown as text, never interpreted
+    html({ text }: Tokens.HTML | Tokens.Tag) {
+      return escapeHtml(text);
+    },
+    link({ href, title, tokens }: Tokens.Link) {
+      const text = this.parser.parseInline(tokens);
+      if (!SAFE_URL_PATTERN.test(href)) return text;
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<a href="${escapeHtml(href)}"${titleAttr} rel="noopener noreferrer">${text}</a>`;
+    },
+    image({ href, title, text }: Tokens.Image) {
+      if (!SAFE_URL_PATTERN.test(href)) return escapeHtml(text);
+      const titleAttr = title ? ` title="${escapeHtml(title)}"` : '';
+      return `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${titleAttr}>`;
+    },
+  },
+});
+
+/**
+ * Render untrusted markdown to HTML
+ */
+export function renderMarkdown(text: string): string {
+  return markdown.parse(text, { async: false });
+}
+
+// Standalone pages scroll the whole document instead of the message pane
+const PAGE_STYLES = `
+body { height: auto; min-height: 100vh; }
+.page-meta { color: #64748b; font-size: 0.875rem; }
+.messages { overflow: visible; max-width: 900px; width: 100%; margin: 0 auto; }
+.message-meta { color: #94a3b8; font-size: 0.75rem; margin-top: 0.25rem; }
+.message-container { flex-direction: column; }
+.message-container.user { flex-direction: column; align-items: flex-end; }
+.page-details { margin-top: 0.5rem; font-size: 0.875rem; color: #475569; }
+.page-details summary { cursor: pointer; }
+.page-details pre { white-space: pre-wrap; word-wrap: break-word; margin-top: 0.5rem; }
+`;
+
+export interface PageOptions {
+  title: string;
+  // Shown under the title, already escaped
+  subtitle?: string;
+  // Body of the `.messages` container, already rendered
+  body: string;
+}
+
+/**
+ * Wrap rendered messages in a self-contained page that inlines the chat UI's
+ * stylesheet, so it looks the same with no requests back to the worker
+ */
+export function renderPage({ title, subtitle, body }: PageOptions): string {
+  const meta = subtitle ? `\n        <div class="page-meta">${subtitle}</div>` : '';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${escapeHtml(title)}</title>
+    <style>
+${staticAssets['/styles.css'] ?? ''}
+${PAGE_STYLES}
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <h1>${escapeHtml(title)}</h1>${meta}
+        </div>
+    </div>
+    <div class="messages">
+${body}
+    </div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Collapsible block of preformatted text, e.g. reasoning or instructions
+ */
+export function renderDetails(summary: string, text: string): string {
+  return `<details class="page-details"><summary>${escapeHtml(summary)}</summary><pre>${escapeHtml(text)}</pre></details>`;
+}
+
+/**
+ * One chat bubble in the same markup the chat UI uses
+ */
+export function renderMessage(role: 'user' | 'assistant', content: string, extras: string = ''): string {
+  const html = role === 'assistant' ? renderMarkdown(content) : escapeHtml(content);
+  return `        <div class="message-container ${role}">
+            <div class="message ${role}">${html}</div>${extras}
+        </div>`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Chat API request/response definitions
+ * `parseChatRequest` is the single runtime check for `/api/chat` bodies; it
+ * throws a `validation_error` naming the offending field.
+ */
+
+import { ATTACHMENT_ID_PATTERN, MAX_ATTACHMENTS } from './attachments';
+import {
+  parseHistory,
+  MAX_INSTRUCTIONS_CHARS,
+  MAX_MESSAGE_CHARS,
+  MAX_SUMMARY_CHARS,
+  REASONING_LEVELS,
+  type ChatTurn,
+  type ReasoningLevel,
+} from './conversation';
+import { ApiError } from './errors';
+import type { Citation, ToolCall } from './output';
+import type { PresetRef } from './presets';
+import type { TokenUsage } from './streaming';
+import type { ToolStep } from './tools';
+
+export interface ChatRequest {
+  message: string;
+  history: ChatTurn[];
+  instructions?: string;
+  reasoningLevel?: ReasoningLevel;
+  model?: string;
+  // Replaces `instructions` with the preset's text when set
+  presetId?: string;
+  // Ids of uploaded attachments sent along with `message`
+  attachments?: string[];
+  // Summary of the turns before `history`, which it stands in for
+  summary?: string;
+}
+
+export interface ChatResponse {
+  response: string;
+  reasoning: string | null;
+  refusal: string | null;
+  citations: Citation[];
+  toolCalls: ToolCall[];
+  usage: TokenUsage | null;
+  model: string;
+  preset: PresetRef | null;
+  // Tools the worker ran while producing the reply, in order
+  toolSteps: ToolStep[];
+  context: {
+    turnsSent: number;
+    turnsDropped: number;
+  };
+}
+
+function invalid(field: string, message: string): ApiError {
+  return new ApiError('validation_error', `Invalid request: ${message}`, { field });
+}
+
+/**
+ * Validate an untrusted request body. Optional fields that are null or blank
+ * are treated as absent.
+ */
+export function parseChatRequest(body: unknown): ChatRequest {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw invalid('body', 'body must be a JSON object');
+  }
+  const { message, history, instructions, reasoningLevel, model, presetId, attachments, summary } = body as Record<string, unknown>;
+
+  if (attachments != null) {
+    if (!Array.isArray(attachments) || !attachments.every(id => typeof id === 'string' && ATTACHMENT_ID_PATTERN.test(id))) {
+      throw invalid('attachments', 'attachments must be an array of attachment ids');
+    }
+    if (attachments.length > MAX_ATTACHMENTS) {
+      throw invalid('attachments', `too many attachments. Maximum ${MAX_ATTACHMENTS} per message.`);
+    }
+  }
+  const hasAttachments = Array.isArray(attachments) && attachments.length > 0;
+
+  // A message may be left empty when it only sends attachments
+  if (typeof message !== 'string' || (!message.trim() && !hasAttachments)) {
+    throw invalid('message', 'message is required');
+  }
+  if (message.length > MAX_MESSAGE_CHARS) {
+    throw invalid('message', `message is too long. Maximum ${MAX_MESSAGE_CHARS} characters.`);
+  }
+
+  const turns = parseHistory(history);
+  if (!turns) {
+    throw invalid('history', 'history must be an array of user/assistant turns');
+  }
+
+  const request: ChatRequest = { message, history: turns };
+
+  if (instructions != null) {
+    if (typeof instructions !== 'string') {
+      throw invalid('instructions', 'instructions must be a string');
+    }
+    if (instructions.trim().length > MAX_INSTRUCTIONS_CHARS) {
+      throw invalid('instructions', `instructions are too long. Maximum ${MAX_INSTRUCTIONS_CHARS} characters.`);
+    }
+    if (instructions.trim()) {
+      request.instructions = instructions.trim();
+    }
+  }
+
+  if (reasoningLevel != null && reasoningLevel !== '') {
+    if (!REASONING_LEVELS.includes(reasoningLevel as ReasoningLevel)) {
+      throw invalid('reasoningLevel', `reasoningLevel must be one of ${REASONING_LEVELS.join(', ')}`);
+    }
+    request.reasoningLevel = reasoningLevel as ReasoningLevel;
+  }
+
+  if (model != null && model !== '') {
+    if (typeof model !== 'string') {
+      throw invalid('model', 'model must be a string');
+    }
+    request.model = model;
+  }
+
+  if (presetId != null && presetId !== '') {
+    if (typeof presetId !== 'string') {
+      throw invalid('presetId', 'presetId must be a string');
+    }
+    request.presetId = presetId;
+  }
+
+  if (hasAttachments) {
+    request.attachments = [...new Set(attachments as string[])];
+  }
+
+  if (summary != null) {
+    if (typeof summary !== 'string') {
+      throw invalid('summary', 'summary must be a string');
+    }
+    if (summary.trim().length > MAX_SUMMARY_CHARS) {
+      throw invalid('summary', `summary is too long. Maximum ${MAX_SUMMARY_CHARS} characters.`);
+    }
+    if (summary.trim()) {
+      request.summary = summary.trim();
+    }
+  }
+
+  return request;
+}
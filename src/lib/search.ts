@@ -0,0 +1,174 @@
+/**
+ * Full-text search over a user's conversations
+ * KV has no query support, so this reads the owner's most recently updated
+ * conversations and scores every message (on every branch) against the
+ * query terms. A message matches when it contains all of them.
+ */
+
+import { getConversation, listConversations, type Conversation, type StoredMessage } from './store';
+
+export type SearchField = 'title' | 'content' | 'reasoning';
+
+export interface SearchOptions {
+  includeReasoning: boolean;
+  limit: number;
+}
+
+export interface SearchHit {
+  conversationId: string;
+  conversationTitle: string;
+  // null when only the title matched
+  messageId: string | null;
+  role: StoredMessage['role'] | null;
+  field: SearchField;
+  snippet: string;
+  // [start, end) character ranges in `snippet` to highlight
+  highlights: [number, number][];
+  score: number;
+  updatedAt: string;
+}
+
+export const MAX_QUERY_CHARS = 200;
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+
+// Conversations read per search, most recently updated first
+const MAX_SEARCHED_CONVERSATIONS = 200;
+const READ_BATCH_SIZE = 10;
+
+const SNIPPET_CHARS = 160;
+const MAX_TERMS = 10;
+
+// Repeats of a term beyond this add nothing to the score
+const MAX_COUNTED_OCCURRENCES = 5;
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { title: 3, content: 1, reasoning: 0.5 };
+
+/**
+ * Lowercased, de-duplicated query terms
+ */
+export function parseQuery(query: string): string[] {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+  return [...new Set(terms)].slice(0, MAX_TERMS);
+}
+
+function countOccurrences(haystack: string, term: string): number {
+  let count = 0;
+  let index = haystack.indexOf(term);
+  while (index !== -1 && count < MAX_COUNTED_OCCURRENCES) {
+    count++;
+    index = haystack.indexOf(term, index + term.length);
+  }
+  return count;
+}
+
+/**
+ * Score text against the terms, or return 0 unless every term appears
+ */
+function scoreText(text: string, terms: string[], phrase: string, field: SearchField): number {
+  const haystack = text.toLowerCase();
+  let score = 0;
+  for (const term of terms) {
+    const count = countOccurrences(haystack, term);
+    if (count === 0) return 0;
+    score += count;
+  }
+  // Terms appearing together in query order rank above scattered matches
+  if (terms.length > 1 && haystack.includes(phrase)) {
+    score += terms.length * 2;
+  }
+  return score * FIELD_WEIGHTS[field];
+}
+
+/**
+ * Cut a window of text around the first match and mark every term in it
+ */
+export function buildSnippet(text: string, terms: string[]): Pick<SearchHit, 'snippet' | 'highlights'> {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  // Terms are letters, digits and underscores only, so they need no escaping
+  const pattern = new RegExp(terms.join('|'), 'giu');
+
+  const first = Math.max(0, flat.search(pattern));
+  let start = Math.max(0, first - Math.floor(SNIPPET_CHARS / 3));
+  let end = Math.min(flat.length, start + SNIPPET_CHARS);
+  start = Math.max(0, end - SNIPPET_CHARS);
+
+  // Prefer word boundaries at the cut points
+  if (start > 0) {
+    const space = flat.indexOf(' ', start);
+    if (space !== -1 && space < first) start = space + 1;
+  }
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    if (space > start) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const snippet = prefix + flat.slice(start, end) + (end < flat.length ? '…' : '');
+  const highlights: [number, number][] = [];
+  for (const match of flat.slice(start, end).matchAll(pattern)) {
+    const from = prefix.length + match.index!;
+    highlights.push([from, from + match[0].length]);
+  }
+  return { snippet, highlights };
+}
+
+function searchConversation(conversation: Conversation, terms: string[], options: SearchOptions): SearchHit[] {
+  const phrase = terms.join(' ');
+  const hits: SearchHit[] = [];
+  const base = { conversationId: conversation.id, conversationTitle: conversation.title, updatedAt: conversation.updatedAt };
+
+  const titleScore = scoreText(conversation.title, terms, phrase, 'title');
+  for (const message of conversation.messages) {
+    const contentScore = scoreText(message.content, terms, phrase, 'content');
+    const reasoningScore = options.includeReasoning && message.reasoning
+      ? scoreText(message.reasoning, terms, phrase, 'reasoning')
+      : 0;
+    if (!contentScore && !reasoningScore) continue;
+
+    const field: SearchField = contentScore >= reasoningScore ? 'content' : 'reasoning';
+    hits.push({
+      ...base,
+      messageId: message.id,
+      role: message.role,
+      field,
+      ...buildSnippet(field === 'content' ? message.content : message.reasoning!, terms),
+      score: contentScore + reasoningScore + titleScore,
+    });
+  }
+
+  // A matching title is worth a hit of its own when no message matched
+  if (titleScore && hits.length === 0) {
+    hits.push({ ...base, messageId: null, role: null, field: 'title', ...buildSnippet(conversation.title, terms), score: titleScore });
+  }
+  return hits;
+}
+
+/**
+ * Ranked hits for `query` across the owner's conversations, best first, with
+ * more recently updated conversations winning ties
+ */
+export async function searchConversations(
+  kv: KVNamespace,
+  owner: string,
+  query: string,
+  options: SearchOptions
+): Promise<SearchHit[]> {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  const summaries = (await listConversations(kv, owner)).slice(0, MAX_SEARCHED_CONVERSATIONS);
+  const hits: SearchHit[] = [];
+
+  for (let i = 0; i < summaries.length; i += READ_BATCH_SIZE) {
+    const batch = summaries.slice(i, i + READ_BATCH_SIZE);
+    const conversations = await Promise.all(batch.map(summary => getConversation(kv, owner, summary.id)));
+    for (const conversation of conversations) {
+      if (conversation) hits.push(...searchConversation(conversation, terms, options));
+    }
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, options.limit);
+}
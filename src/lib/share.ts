@@ -0,0 +1,146 @@
+/**
+ * Read-only share links backed by Workers KV
+ * A share is a snapshot of a conversation's active branch taken when the link
+ * is created; later edits to the conversation do not change it. Links are
+ * addressed by an unguessable id and may expire.
+ *
+ * Each share is stored twice: `share:<id>` holds the snapshot for the public
+ * page, and `share-owner:<owner>:<id>` is an index entry whose metadata lets
+ * the owner list and revoke their links.
+ */
+
+import { base64UrlEncode } from './encoding';
+import { activePath, type Conversation, type StoredMessage } from './store';
+
+export interface ShareOptions {
+  includeReasoning: boolean;
+  includeInstructions: boolean;
+  // Hours until the link stops working, or null to keep it until revoked
+  expiresInHours: number | null;
+}
+
+export interface ShareSummary {
+  id: string;
+  conversationId: string;
+  title: string;
+  createdAt: string;
+  expiresAt: string | null;
+  includeReasoning: boolean;
+  includeInstructions: boolean;
+}
+
+export interface SharedConversation extends ShareSummary {
+  owner: string;
+  messages: StoredMessage[];
+}
+
+const SHARE_PREFIX = 'share:';
+const OWNER_PREFIX = 'share-owner:';
+
+// 128 bits of randomness, encoded as 22 url-safe characters
+const SHARE_ID_BYTES = 16;
+export const SHARE_ID_PATTERN = /^[\w-]{22}$/;
+
+export const MAX_SHARE_HOURS = 24 * 365;
+
+function shareKey(id: string): string {
+  return SHARE_PREFIX + id;
+}
+
+function ownerPrefix(owner: string): string {
+  return `${OWNER_PREFIX}${encodeURIComponent(owner)}:`;
+}
+
+function summarize(share: SharedConversation): ShareSummary {
+  const { id, conversationId, title, createdAt, expiresAt, includeReasoning, includeInstructions } = share;
+  return { id, conversationId, title, createdAt, expiresAt, includeReasoning, includeInstructions };
+}
+
+function isExpired(share: ShareSummary, now: number = Date.now()): boolean {
+  return share.expiresAt !== null && Date.parse(share.expiresAt) <= now;
+}
+
+/**
+ * Snapshot the active branch of a conversation under a new share id
+ */
+export async function createShare(
+  kv: KVNamespace,
+  owner: string,
+  conversation: Conversation,
+  options: ShareOptions
+): Promise<ShareSummary> {
+  const now = Date.now();
+  const messages = activePath(conversation).map(message => ({
+    ...message,
+    reasoning: options.includeReasoning ? message.reasoning : null,
+    instructions: options.includeInstructions ? message.instructions : null,
+    preset: options.includeInstructions ? message.preset : null,
+  }));
+
+  const share: SharedConversation = {
+    id: base64UrlEncode(crypto.getRandomValues(new Uint8Array(SHARE_ID_BYTES))),
+    owner,
+    conversationId: conversation.id,
+    title: conversation.title,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: options.expiresInHours ? new Date(now + options.expiresInHours * 3600 * 1000).toISOString() : null,
+    includeReasoning: options.includeReasoning,
+    includeInstructions: options.includeInstructions,
+    messages,
+  };
+
+  // KV drops expired entries on its own; reads also check expiresAt because
+  // expiry is not instantaneous
+  const expiration = share.expiresAt ? { expiration: Math.ceil(Date.parse(share.expiresAt) / 1000) } : {};
+  const summary = summarize(share);
+  await kv.put(shareKey(share.id), JSON.stringify(share), expiration);
+  await kv.put(ownerPrefix(owner) + share.id, '', { ...expiration, metadata: summary });
+  return summary;
+}
+
+/**
+ * Look up a share for the public page. Returns null when it does not exist,
+ * was revoked, or has expired.
+ */
+export async function getShare(kv: KVNamespace, id: string): Promise<SharedConversation | null> {
+  if (!SHARE_ID_PATTERN.test(id)) return null;
+
+  const share = await kv.get<SharedConversation>(shareKey(id), 'json');
+  return share && !isExpired(share) ? share : null;
+}
+
+/**
+ * List an owner's live shares, newest first
+ */
+export async function listShares(kv: KVNamespace, owner: string): Promise<ShareSummary[]> {
+  const shares: ShareSummary[] = [];
+  const now = Date.now();
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list<ShareSummary>({ prefix: ownerPrefix(owner), cursor });
+    for (const key of page.keys) {
+      if (key.metadata && !isExpired(key.metadata, now)) {
+        shares.push(key.metadata);
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return shares.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Revoke a share. Only its owner can; anyone else gets false as if it did
+ * not exist.
+ */
+export async function revokeShare(kv: KVNamespace, owner: string, id: string): Promise<boolean> {
+  if (!SHARE_ID_PATTERN.test(id)) return false;
+
+  const share = await kv.get<SharedConversation>(shareKey(id), 'json');
+  if (!share || share.owner !== owner) return false;
+
+  await kv.delete(shareKey(id));
+  await kv.delete(ownerPrefix(owner) + id);
+  return true;
+}
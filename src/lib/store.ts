@@ -0,0 +1,371 @@
+/**
+ * Conversation persistence backed by Workers KV
+ * Each conversation is one KV value keyed by owner; list metadata carries the
+ * summary so the sidebar can be rendered without reading every conversation.
+ *
+ * Messages form a tree: regenerating a reply or editing a user message adds
+ * a sibling under the same parent. `activeLeafId` marks the branch currently
+ * shown, and `activePath` walks from the root to that leaf.
+ */
+
+import { parseAttachmentRefs, type AttachmentRef } from './attachments';
+import { REASONING_LEVELS, type ChatRole, type ReasoningLevel } from './conversation';
+import { ApiError } from './errors';
+import { parseCitations, type Citation } from './output';
+import { parsePresetRef, type PresetRef } from './presets';
+import { parseToolSteps, truncateText, type ToolStep } from './tools';
+
+export interface StoredMessage {
+  id: string;
+  parentId: string | null;
+  role: ChatRole;
+  content: string;
+  reasoning: string | null;
+  instructions: string | null;
+  reasoningLevel: ReasoningLevel | null;
+  model: string | null;
+  // Instruction preset selected when the message was sent
+  preset: PresetRef | null;
+  // Files sent with a user message
+  attachments: AttachmentRef[];
+  // Tools run and sources cited while producing an assistant reply
+  toolSteps: ToolStep[];
+  citations: Citation[];
+  createdAt: string;
+}
+
+// A generated summary of a branch, from the root through `messageId`
+export interface ThreadSummary {
+  content: string;
+  messageId: string;
+  model: string;
+  createdAt: string;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  // True while the title is the default or taken from the first message, so
+  // a generated title may replace it
+  autoTitle: boolean;
+  createdAt: string;
+  updatedAt: string;
+  // Every message on every branch, in creation order
+  messages: StoredMessage[];
+  activeLeafId: string | null;
+  summary: ThreadSummary | null;
+}
+
+export interface ConversationSummary {
+  id: string;
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+}
+
+// Clients may choose message ids so they can reference a branch before saving it
+export type NewMessage = Omit<StoredMessage, 'id' | 'parentId' | 'createdAt'> & { id?: string };
+
+// A conversation read from an export file, before it is given a new id
+export type ImportedConversation = Omit<Conversation, 'id' | 'updatedAt' | 'autoTitle' | 'summary'>;
+
+export interface ConversationChanges {
+  title?: string;
+  activeLeafId?: string;
+}
+
+const KEY_PREFIX = 'conversation:';
+
+function ownerPrefix(owner: string): string {
+  return `${KEY_PREFIX}${encodeURIComponent(owner)}:`;
+}
+
+function conversationKey(owner: string, id: string): string {
+  return ownerPrefix(owner) + id;
+}
+
+export const DEFAULT_TITLE = 'New chat';
+export const MAX_TITLE_CHARS = 100;
+
+// Upper bound for a single stored message, including long assistant replies
+export const MAX_STORED_CONTENT_CHARS = 100000;
+
+export const MESSAGE_ID_PATTERN = /^[\w-]{1,64}$/;
+
+/**
+ * Derive a title from the first user message
+ */
+export function titleFromMessage(content: string): string {
+  const firstLine = content.trim().split('\n')[0].trim();
+  if (!firstLine) return DEFAULT_TITLE;
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+}
+
+/**
+ * Validate an untrusted message body, returning null when it is malformed.
+ * Content over MAX_STORED_CONTENT_CHARS is cut short rather than refused.
+ */
+export function parseMessage(value: unknown): NewMessage | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+
+  const fields = value as Record<string, unknown>;
+  const { id, role, content, reasoning, instructions, reasoningLevel, model } = fields;
+  const preset = parsePresetRef(fields.preset);
+  const attachments = parseAttachmentRefs(fields.attachments);
+  const toolSteps = parseToolSteps(fields.toolSteps);
+  const citations = parseCitations(fields.citations);
+  if (id != null && (typeof id !== 'string' || !MESSAGE_ID_PATTERN.test(id))) return null;
+  if (role !== 'user' && role !== 'assistant') return null;
+  if (typeof content !== 'string') return null;
+  if (reasoning != null && typeof reasoning !== 'string') return null;
+  if (instructions != null && typeof instructions !== 'string') return null;
+  if (reasoningLevel != null && !REASONING_LEVELS.includes(reasoningLevel as ReasoningLevel)) return null;
+  if (model != null && typeof model !== 'string') return null;
+  if (preset === undefined) return null;
+  if (attachments === undefined) return null;
+  if (toolSteps === undefined || citations === undefined) return null;
+
+  return {
+    ...(id ? { id } : {}),
+    role,
+    content: truncateText(content, MAX_STORED_CONTENT_CHARS),
+    reasoning: reasoning || null,
+    instructions: instructions || null,
+    reasoningLevel: (reasoningLevel as ReasoningLevel | null) || null,
+    model: model || null,
+    preset,
+    attachments,
+    toolSteps,
+    citations,
+  };
+}
+
+/**
+ * Messages from the root to the active leaf, or to `leafId` when given
+ */
+export function activePath(conversation: Conversation, leafId: string | null = conversation.activeLeafId): StoredMessage[] {
+  const byId = new Map(conversation.messages.map(message => [message.id, message]));
+  const path: StoredMessage[] = [];
+
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && path.length <= conversation.messages.length) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+}
+
+/**
+ * Conversations saved before branching were a flat list; read them as a
+ * single branch ending at the last message. Messages saved before presets,
+ * attachments, tool steps or citations have none, and conversations saved
+ * before titling and summaries keep their title and have no summary.
+ */
+function normalize(conversation: Conversation): Conversation {
+  let previousId: string | null = null;
+  for (const message of conversation.messages) {
+    if (message.parentId === undefined) {
+      message.parentId = previousId;
+    }
+    if (message.preset === undefined) {
+      message.preset = null;
+    }
+    if (message.attachments === undefined) {
+      message.attachments = [];
+    }
+    message.toolSteps ??= [];
+    message.citations ??= [];
+    previousId = message.id;
+  }
+  if (conversation.activeLeafId === undefined) {
+    conversation.activeLeafId = previousId;
+  }
+  conversation.autoTitle ??= false;
+  conversation.summary ??= null;
+  return conversation;
+}
+
+function summarize(conversation: Conversation): ConversationSummary {
+  return {
+    id: conversation.id,
+    title: conversation.title,
+    createdAt: conversation.createdAt,
+    updatedAt: conversation.updatedAt,
+    messageCount: activePath(conversation).length,
+  };
+}
+
+async function save(kv: KVNamespace, owner: string, conversation: Conversation): Promise<void> {
+  await kv.put(conversationKey(owner, conversation.id), JSON.stringify(conversation), {
+    metadata: summarize(conversation),
+  });
+}
+
+/**
+ * List an owner's conversation summaries, most recently updated first
+ */
+export async function listConversations(kv: KVNamespace, owner: string): Promise<ConversationSummary[]> {
+  const summaries: ConversationSummary[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await kv.list<ConversationSummary>({ prefix: ownerPrefix(owner), cursor });
+    for (const key of page.keys) {
+      if (key.metadata) {
+        summaries.push(key.metadata);
+      }
+    }
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+
+  return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export async function getConversation(kv: KVNamespace, owner: string, id: string): Promise<Conversation | null> {
+  const conversation = await kv.get<Conversation>(conversationKey(owner, id), 'json');
+  return conversation ? normalize(conversation) : null;
+}
+
+export async function createConversation(kv: KVNamespace, owner: string, title: string = DEFAULT_TITLE): Promise<Conversation> {
+  const now = new Date().toISOString();
+  const conversation: Conversation = {
+    id: crypto.randomUUID(),
+    title,
+    autoTitle: title === DEFAULT_TITLE,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    activeLeafId: null,
+    summary: null,
+  };
+  await save(kv, owner, conversation);
+  return conversation;
+}
+
+/**
+ * Store an imported conversation under a fresh id. Message ids and the
+ * branch structure are kept as exported.
+ */
+export async function importConversation(kv: KVNamespace, owner: string, data: ImportedConversation): Promise<Conversation> {
+  const conversation: Conversation = {
+    id: crypto.randomUUID(),
+    ...data,
+    autoTitle: false,
+    updatedAt: new Date().toISOString(),
+    summary: null,
+  };
+  await save(kv, owner, conversation);
+  return conversation;
+}
+
+/**
+ * Rename a conversation and/or switch the branch it shows
+ */
+export async function updateConversation(
+  kv: KVNamespace,
+  owner: string,
+  id: string,
+  changes: ConversationChanges
+): Promise<Conversation | null> {
+  const conversation = await getConversation(kv, owner, id);
+  if (!conversation) return null;
+
+  if (changes.activeLeafId !== undefined) {
+    if (!conversation.messages.some(message => message.id === changes.activeLeafId)) {
+      throw new ApiError('validation_error', 'Invalid request: activeLeafId is not a message in this conversation', { field: 'activeLeafId' });
+    }
+    conversation.activeLeafId = changes.activeLeafId;
+  }
+  if (changes.title !== undefined) {
+    conversation.title = changes.title;
+    conversation.autoTitle = false;
+  }
+  conversation.updatedAt = new Date().toISOString();
+  await save(kv, owner, conversation);
+  return conversation;
+}
+
+export async function deleteConversation(kv: KVNamespace, owner: string, id: string): Promise<boolean> {
+  const conversation = await getConversation(kv, owner, id);
+  if (!conversation) return false;
+
+  await kv.delete(conversationKey(owner, id));
+  return true;
+}
+
+/**
+ * Append a chain of turns under `parentId` (the active leaf when undefined,
+ * the root when null) and make the last one the active leaf. An untitled
+ * conversation takes its title from the first user message.
+ */
+export async function appendMessages(
+  kv: KVNamespace,
+  owner: string,
+  id: string,
+  messages: NewMessage[],
+  parentId?: string | null
+): Promise<Conversation | null> {
+  const conversation = await getConversation(kv, owner, id);
+  if (!conversation) return null;
+
+  const existingIds = new Set(conversation.messages.map(message => message.id));
+  let previousId = parentId === undefined ? conversation.activeLeafId : parentId;
+  if (previousId !== null && !existingIds.has(previousId)) {
+    throw new ApiError('validation_error', 'Invalid request: parentId is not a message in this conversation', { field: 'parentId' });
+  }
+
+  const now = new Date().toISOString();
+  for (const message of messages) {
+    const messageId = message.id || crypto.randomUUID();
+    if (existingIds.has(messageId)) {
+      throw new ApiError('validation_error', 'Invalid request: message id is already in use', { field: 'id' });
+    }
+    existingIds.add(messageId);
+    conversation.messages.push({ ...message, id: messageId, parentId: previousId, createdAt: now });
+    previousId = messageId;
+  }
+  conversation.activeLeafId = previousId;
+
+  if (conversation.autoTitle && conversation.title === DEFAULT_TITLE) {
+    const firstUser = activePath(conversation).find(message => message.role === 'user');
+    if (firstUser) {
+      conversation.title = titleFromMessage(firstUser.content);
+    }
+  }
+
+  conversation.updatedAt = now;
+  await save(kv, owner, conversation);
+  return conversation;
+}
+
+/**
+ * Replace a conversation's title with a generated one. Nothing is written
+ * when it was renamed or titled meanwhile, or changed at all since
+ * `updatedAt`: saving the copy read here would drop the newer messages.
+ * Returns whether the title was changed.
+ */
+export async function setGeneratedTitle(
+  kv: KVNamespace,
+  owner: string,
+  id: string,
+  title: string,
+  updatedAt: string
+): Promise<boolean> {
+  const conversation = await getConversation(kv, owner, id);
+  if (!conversation?.autoTitle || conversation.updatedAt !== updatedAt) return false;
+
+  conversation.title = title;
+  conversation.autoTitle = false;
+  await save(kv, owner, conversation);
+  return true;
+}
+
+export async function saveSummary(kv: KVNamespace, owner: string, id: string, summary: ThreadSummary): Promise<Conversation | null> {
+  const conversation = await getConversation(kv, owner, id);
+  if (!conversation) return null;
+
+  conversation.summary = summary;
+  await save(kv, owner, conversation);
+  return conversation;
+}
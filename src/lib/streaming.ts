@@ -0,0 +1,354 @@
+/**
+ * Server-Sent Events helpers
+ * Parses the AI worker's incremental output and re-emits it to the browser
+ * as a small, stable set of events: `text`, `reasoning`, `refusal`,
+ * `citation`, `tool_call`, `tool_result`, `done` and `error`.
+ * `error` events carry the same `{error: {code, message, retryable}}` envelope
+ * as JSON error responses.
+ */
+
+import { ApiError, type ErrorCode, type ErrorDetail } from './errors';
+import { asArray, isRecord } from './http';
+import { errorFields, type Logger } from './log';
+import {
+  parseAnnotation,
+  parseChatCompletionOutput,
+  parseResponsesOutput,
+  parseToolCall,
+  parseUsage,
+  type Citation,
+  type ToolCall,
+} from './output';
+import type { ToolStep } from './tools';
+
+export type ChatStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'reasoning'; delta: string }
+  | { type: 'refusal'; delta: string }
+  | { type: 'citation'; citation: Citation }
+  | { type: 'tool_call'; call: ToolCall }
+  | { type: 'tool_result'; step: ToolStep }
+  | { type: 'done'; usage?: TokenUsage }
+  | { type: 'error'; error: ErrorDetail };
+
+export interface TokenUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  total_tokens?: number;
+}
+
+export interface StreamSummary {
+  text: string;
+  reasoning: string;
+  usage: TokenUsage | null;
+  // Code of the error event that ended the stream, if any
+  error: ErrorCode | null;
+}
+
+interface SSEMessage {
+  event: string | null;
+  data: string;
+}
+
+/**
+ * Encode a single SSE frame
+ */
+export function encodeSSE(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Split a byte stream into SSE messages. Aborting `signal` cancels the body,
+ * which ends the stream.
+ */
+async function* readSSE(body: ReadableStream<Uint8Array>, signal?: AbortSignal): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const cancel = () => reader.cancel().catch(() => {});
+  let buffer = '';
+
+  signal?.addEventListener('abort', cancel);
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const message = parseFrame(frame);
+        if (message) yield message;
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+
+    const message = parseFrame(buffer);
+    if (message) yield message;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    reader.releaseLock();
+  }
+}
+
+function parseFrame(frame: string): SSEMessage | null {
+  let event: string | null = null;
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join('\n') };
+}
+
+/**
+ * Map one upstream SSE message to zero or more chat stream events.
+ * Understands Responses-style events plus the simpler Workers AI and
+ * chat-completions chunk shapes. Chat-completions tool calls arrive in
+ * fragments; they are assembled in `pendingCalls` by index and emitted by
+ * the caller once the stream ends.
+ */
+export function translateUpstreamMessage(message: SSEMessage, pendingCalls: Map<number, ToolCall> = new Map()): ChatStreamEvent[] {
+  if (message.data === '[DONE]') {
+    return [{ type: 'done' }];
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(message.data);
+  } catch {
+    return [];
+  }
+
+  const payload = isRecord(parsed) ? parsed : {};
+  const eventType = message.event || stringField(payload.type);
+
+  switch (eventType) {
+    case 'response.output_text.delta': {
+      const delta = stringField(payload.delta);
+      return delta ? [{ type: 'text', delta }] : [];
+    }
+    case 'response.reasoning_text.delta':
+    case 'response.reasoning_summary_text.delta': {
+      const delta = stringField(payload.delta);
+      return delta ? [{ type: 'reasoning', delta }] : [];
+    }
+    case 'response.refusal.delta': {
+      const delta = stringField(payload.delta);
+      return delta ? [{ type: 'refusal', delta }] : [];
+    }
+    case 'response.output_text.annotation.added': {
+      const citation = parseAnnotation(payload.annotation);
+      return citation ? [{ type: 'citation', citation }] : [];
+    }
+    case 'response.output_item.done': {
+      const item = payload.item;
+      const index = typeof payload.output_index === 'number' ? payload.output_index : 0;
+      const call = isRecord(item) && item.type === 'function_call' ? parseToolCall(item, index) : null;
+      return call ? [{ type: 'tool_call', call }] : [];
+    }
+    case 'response.completed': {
+      const usage = parseUsage(isRecord(payload.response) ? payload.response.usage : undefined);
+      return [usage ? { type: 'done', usage } : { type: 'done' }];
+    }
+    case 'response.failed':
+    case 'response.incomplete':
+    case 'error':
+      return [{
+        type: 'error',
+        error: new ApiError(
+          'upstream_server_error',
+          stringField(isRecord(payload.error) ? payload.error.message : undefined)
+            || stringField(payload.message)
+            || 'AI service error. Please try again later.'
+        ).toDetail(),
+      }];
+  }
+
+  // Workers AI text generation chunks: {"response": "..."}, with whole tool calls
+  if (typeof payload.response === 'string' || Array.isArray(payload.tool_calls)) {
+    const response = stringField(payload.response);
+    const events: ChatStreamEvent[] = response ? [{ type: 'text', delta: response }] : [];
+    for (const item of asArray(payload.tool_calls)) {
+      const call = parseToolCall(item, pendingCalls.size);
+      if (call) pendingCalls.set(pendingCalls.size, call);
+    }
+    return events;
+  }
+
+  // Chat-completions chunks: {"choices": [{"delta": {...}}]}
+  const choice = asArray(payload.choices)[0];
+  const delta = isRecord(choice) ? choice.delta : undefined;
+  if (isRecord(delta)) {
+    const events: ChatStreamEvent[] = [];
+    const reasoning = stringField(delta.reasoning_content);
+    const content = stringField(delta.content);
+    const refusal = stringField(delta.refusal);
+    if (reasoning) events.push({ type: 'reasoning', delta: reasoning });
+    if (content) events.push({ type: 'text', delta: content });
+    if (refusal) events.push({ type: 'refusal', delta: refusal });
+    for (const annotation of asArray(delta.annotations)) {
+      const citation = parseAnnotation(annotation);
+      if (citation) events.push({ type: 'citation', citation });
+    }
+    for (const fragment of asArray(delta.tool_calls)) {
+      if (!isRecord(fragment)) continue;
+      const index = typeof fragment.index === 'number' ? fragment.index : pendingCalls.size;
+      const call = pendingCalls.get(index) ?? { id: `call_${index}`, name: '', arguments: '' };
+      const fn = isRecord(fragment.function) ? fragment.function : {};
+      if (typeof fragment.id === 'string') call.id = fragment.id;
+      if (typeof fn.name === 'string') call.name += fn.name;
+      if (typeof fn.arguments === 'string') call.arguments += fn.arguments;
+      pendingCalls.set(index, call);
+    }
+    return events;
+  }
+
+  // Chat-completions usage chunk (stream_options.include_usage)
+  if (payload.usage && Array.isArray(payload.choices) && payload.choices.length === 0) {
+    const usage = parseUsage(payload.usage);
+    return [usage ? { type: 'done', usage } : { type: 'done' }];
+  }
+
+  return [];
+}
+
+function stringField(value: unknown): string {
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Translate an upstream response into chat stream events, ending with `done`
+ * or `error`. Buffered (non-SSE) bodies are replayed as single deltas.
+ * Aborting `signal` cancels the upstream body and ends the events early
+ * without `done`.
+ */
+export async function* upstreamEvents(upstream: Response, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+  const upstreamBody = upstream.body;
+  if (!upstreamBody) {
+    yield { type: 'error', error: new ApiError('upstream_malformed', 'No response received').toDetail() };
+    return;
+  }
+
+  if (!(upstream.headers.get('Content-Type') || '').includes('text/event-stream')) {
+    // Upstream ignored the stream flag - replay the buffered body as one delta
+    yield* translateBufferedBody(await new Response(upstreamBody).text());
+    return;
+  }
+
+  const pendingCalls = new Map<number, ToolCall>();
+  const toolCallEvents = (): ChatStreamEvent[] =>
+    [...pendingCalls.values()].filter(call => call.name).map(call => ({ type: 'tool_call', call }));
+
+  for await (const message of readSSE(upstreamBody, signal)) {
+    for (const event of translateUpstreamMessage(message, pendingCalls)) {
+      if (event.type === 'done') {
+        yield* toolCallEvents();
+      }
+      yield event;
+      if (event.type === 'done' || event.type === 'error') return;
+    }
+  }
+
+  if (!signal?.aborted) {
+    yield* toolCallEvents();
+    yield { type: 'done' };
+  }
+}
+
+/**
+ * Build the SSE response body for the browser from chat stream events.
+ * Cancelling the returned stream (client disconnect or Stop) calls
+ * `onCancel`, which should abort the upstream request. `onFinish` receives
+ * the relayed text once the stream ends, however it ends.
+ */
+export function createChatEventStream(
+  events: AsyncIterable<ChatStreamEvent>,
+  log: Logger,
+  onFinish?: (summary: StreamSummary) => void | Promise<void>,
+  onCancel?: () => void
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const summary: StreamSummary = { text: '', reasoning: '', usage: null, error: null };
+  let finishReported = false;
+
+  const finish = async () => {
+    if (finishReported || !onFinish) return;
+    finishReported = true;
+    try {
+      await onFinish(summary);
+    } catch (error) {
+      log.error('stream.finish_failed', errorFields(error));
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (event.type === 'text') summary.text += event.delta;
+        if (event.type === 'reasoning') summary.reasoning += event.delta;
+        if (event.type === 'done' && event.usage) summary.usage = event.usage;
+        if (event.type === 'error') {
+          summary.error = event.error.code;
+          log.warn('stream.error', { code: event.error.code });
+        }
+
+        const { type, ...data } = event;
+        controller.enqueue(encoder.encode(encodeSSE(type, data)));
+      };
+
+      try {
+        for await (const event of events) {
+          send(event);
+        }
+        controller.close();
+      } catch (error) {
+        if (error instanceof ApiError) {
+          log.warn('stream.failed', { code: error.code, details: error.details ?? null });
+        } else {
+          log.error('stream.relay_failed', errorFields(error));
+        }
+        try {
+          const detail = error instanceof ApiError ? error.toDetail() : new ApiError('upstream_server_error', 'Stream interrupted').toDetail();
+          send({ type: 'error', error: detail });
+          controller.close();
+        } catch {
+          // Client already disconnected
+        }
+      } finally {
+        await finish();
+      }
+    },
+    async cancel() {
+      log.info('stream.cancelled');
+      onCancel?.();
+      await finish();
+    },
+  });
+}
+
+function translateBufferedBody(text: string): ChatStreamEvent[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return text ? [{ type: 'text', delta: text }, { type: 'done' }] : [{ type: 'done' }];
+  }
+
+  const output = isRecord(data) && Array.isArray(data.choices) ? parseChatCompletionOutput(data) : parseResponsesOutput(data);
+  const events: ChatStreamEvent[] = [];
+  if (output.reasoning) events.push({ type: 'reasoning', delta: output.reasoning });
+  if (output.response) events.push({ type: 'text', delta: output.response });
+  if (output.refusal) events.push({ type: 'refusal', delta: output.refusal });
+  for (const citation of output.citations) events.push({ type: 'citation', citation });
+  for (const call of output.toolCalls) events.push({ type: 'tool_call', call });
+  events.push(output.usage ? { type: 'done', usage: output.usage } : { type: 'done' });
+  return events;
+}
@@ -0,0 +1,182 @@
+/**
+ * Generated titles and summaries
+ * Both come from one buffered request to the default model. A title is
+ * generated in the background once a conversation's first exchange is saved;
+ * a summary is made on request, and the client sends it in place of the
+ * turns it covers to keep long threads within the context budget.
+ */
+
+import type { Env } from '../index';
+import { getProvider, type ProviderRequest } from '../providers';
+import { MAX_SUMMARY_CHARS } from './conversation';
+import { ApiError } from './errors';
+import { errorFields, type Logger } from './log';
+import { resolveModel, type ModelInfo } from './models';
+import { tokensUsed, type RateLimiter } from './ratelimit';
+import { activePath, setGeneratedTitle, titleFromMessage, type Conversation, type StoredMessage, type ThreadSummary } from './store';
+import { requestUpstream } from './upstream';
+
+interface Completion {
+  text: string;
+  tokens: number;
+}
+
+const TITLE_INSTRUCTIONS = 'Write a title of at most six words for the conversation below. '
+  + 'Reply with the title only: no quotes, no trailing punctuation.';
+
+const SUMMARY_INSTRUCTIONS = 'Summarise the conversation below for someone about to continue it. '
+  + 'Keep facts, decisions, names, numbers, open questions and anything the user asked to be remembered. '
+  + 'Write plain prose of at most 250 words, without a heading.';
+
+// The start of each side of the first exchange is enough to name a conversation
+const TITLE_SOURCE_CHARS = 1000;
+
+// Transcript sent for a summary, before the model's own limit applies
+const MAX_SUMMARY_SOURCE_CHARS = 48000;
+
+/**
+ * Lines of `User:`/`Assistant:` text, keeping the newest messages that fit
+ */
+function transcript(messages: StoredMessage[], maxChars: number): string {
+  const lines: string[] = [];
+  let usedChars = 0;
+
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const { role, content } = messages[i];
+    const line = `${role === 'user' ? 'User' : 'Assistant'}: ${content.trim()}`;
+    if (usedChars + line.length > maxChars) {
+      // Always send something, even when the newest message alone is too long
+      if (lines.length === 0) lines.unshift(line.slice(0, maxChars));
+      break;
+    }
+    lines.unshift(line);
+    usedChars += line.length;
+  }
+  return lines.join('\n\n');
+}
+
+async function complete(
+  env: Env,
+  model: ModelInfo,
+  owner: string,
+  instructions: string,
+  content: string,
+  log: Logger
+): Promise<Completion> {
+  const provider = getProvider(env);
+  const request: ProviderRequest = {
+    model: model.id,
+    user: owner,
+    instructions,
+    input: [{ role: 'user', content }],
+  };
+  if (model.supportsReasoning) {
+    request.reasoning = { effort: 'low' };
+  }
+
+  const response = await requestUpstream(env, provider, request, log);
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    throw new ApiError('upstream_malformed', 'The AI service returned an unreadable response.');
+  }
+
+  const output = provider.parseResponse(data);
+  const text = output.response.trim();
+  if (!text) {
+    throw new ApiError('upstream_malformed', 'The AI service returned an empty response.');
+  }
+  return { text, tokens: tokensUsed(output.usage, instructions + content, (output.reasoning || '') + output.response) };
+}
+
+/**
+ * First line of a model's reply, without Markdown, quotes or a `Title:` label
+ */
+export function cleanTitle(text: string): string | null {
+  const line = text.split('\n').map(part => part.trim()).find(Boolean) ?? '';
+  const title = line
+    .replace(/[*_#`]/g, '')
+    .replace(/^title\s*:\s*/i, '')
+    .replace(/^["'“‘]+|["'”’.!]+$/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return title ? titleFromMessage(title) : null;
+}
+
+/**
+ * Whether a conversation is still waiting for a generated title: it has the
+ * automatic title and its active branch holds a complete exchange
+ */
+export function needsTitle(conversation: Conversation): boolean {
+  if (!conversation.autoTitle) return false;
+  const path = activePath(conversation);
+  return path.some(message => message.role === 'user') && path.some(message => message.role === 'assistant' && message.content.trim());
+}
+
+/**
+ * Generate and store a title from the start of the active branch. Runs after
+ * the response has been sent, so failures are logged rather than thrown; the
+ * next saved exchange tries again, as it does when the conversation changed
+ * before the title arrived.
+ */
+export async function generateTitle(
+  env: Env,
+  kv: KVNamespace,
+  owner: string,
+  conversation: Conversation,
+  limiter: DurableObjectStub<RateLimiter> | null,
+  log: Logger
+): Promise<void> {
+  try {
+    const model = resolveModel(env, undefined)!;
+    const exchange = activePath(conversation).slice(0, 2)
+      .map(message => ({ ...message, content: message.content.slice(0, TITLE_SOURCE_CHARS) }));
+    const source = transcript(exchange, Infinity);
+    const { text, tokens } = await complete(env, model, owner, TITLE_INSTRUCTIONS, source, log);
+    await limiter?.recordTokens(tokens);
+
+    const title = cleanTitle(text);
+    const saved = title !== null && await setGeneratedTitle(kv, owner, conversation.id, title, conversation.updatedAt);
+    log.info('conversation.titled', { conversationId: conversation.id, saved, tokens });
+  } catch (error) {
+    log.warn('conversation.title_failed', { conversationId: conversation.id, ...errorFields(error) });
+  }
+}
+
+/**
+ * Summarise a branch from the root through `messageId`. When the
+ * conversation already has a summary of an earlier point on the same branch,
+ * only the messages after it are sent along with that summary.
+ */
+export async function summarizeBranch(
+  env: Env,
+  owner: string,
+  conversation: Conversation,
+  messageId: string,
+  log: Logger
+): Promise<{ summary: ThreadSummary; tokens: number }> {
+  const path = activePath(conversation, messageId);
+  const model = resolveModel(env, undefined)!;
+  const maxChars = Math.min(MAX_SUMMARY_SOURCE_CHARS, model.contextLimit * 2);
+
+  const previous = conversation.summary;
+  // Summarising again at the same point starts over from the full branch
+  const covered = previous && previous.messageId !== messageId ? path.findIndex(message => message.id === previous.messageId) : -1;
+  const messages = covered === -1 ? path : path.slice(covered + 1);
+  const earlier = covered === -1 ? '' : `Summary of the conversation before this point:\n${previous!.content}\n\n`;
+
+  const source = earlier + transcript(messages, maxChars - earlier.length);
+  const { text, tokens } = await complete(env, model, owner, SUMMARY_INSTRUCTIONS, source, log);
+  log.info('conversation.summarized', { conversationId: conversation.id, messages: messages.length, sourceChars: source.length, tokens });
+
+  return {
+    summary: {
+      content: text.slice(0, MAX_SUMMARY_CHARS),
+      messageId,
+      model: model.id,
+      createdAt: new Date().toISOString(),
+    },
+    tokens,
+  };
+}
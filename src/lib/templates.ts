@@ -0,0 +1,206 @@
+/**
+ * Prompt templates shared across the team
+ * A template is a message body with `{{variable}}` placeholders, picked in the
+ * chat input by typing `/name`. Templates live in a single TemplateStore
+ * Durable Object, one storage key each, so concurrent saves are applied one
+ * at a time and names stay unique. Anyone can use them, only their author can
+ * change or delete them.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { Env } from '../index';
+import type { Identity } from './auth';
+import { MAX_MESSAGE_CHARS } from './conversation';
+import { ApiError } from './errors';
+
+export interface PromptTemplate {
+  id: string;
+  // Slash-command name, e.g. "summarise-diff"
+  name: string;
+  description: string;
+  body: string;
+  // Placeholder names in order of first use
+  variables: string[];
+  author: { id: string; name: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type TemplateFields = Pick<PromptTemplate, 'name' | 'description' | 'body'>;
+
+// Outcome of a change inside the store. Errors thrown in a Durable Object
+// lose their ApiError class on the way back, so refusals are returned instead.
+type TemplateChange =
+  | { ok: true; template: PromptTemplate }
+  | { ok: false; reason: 'not_found' | 'forbidden' | 'name_taken' | 'full' };
+
+export const MAX_TEMPLATES = 200;
+export const MAX_DESCRIPTION_CHARS = 200;
+
+// Every template is kept by the one store instance with this name
+const STORE_NAME = 'team';
+const TEMPLATE_PREFIX = 'template:';
+const NAME_PATTERN = /^[a-z0-9][a-z0-9-]{0,31}$/;
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+function invalid(field: string, message: string): ApiError {
+  return new ApiError('validation_error', `Invalid request: ${message}`, { field });
+}
+
+/**
+ * Distinct `{{variable}}` names in a template body
+ */
+export function extractVariables(body: string): string[] {
+  const names = Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]);
+  return [...new Set(names)];
+}
+
+/**
+ * Validate template fields from an untrusted body
+ */
+export function parseTemplateFields(body: unknown): TemplateFields {
+  const { name, description, body: text } = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !NAME_PATTERN.test(name)) {
+    throw invalid('name', 'name must be 1-32 lowercase letters, digits or dashes');
+  }
+  if (description != null && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_CHARS)) {
+    throw invalid('description', `description must be at most ${MAX_DESCRIPTION_CHARS} characters`);
+  }
+  if (typeof text !== 'string' || !text.trim()) {
+    throw invalid('body', 'body is required');
+  }
+  if (text.length > MAX_MESSAGE_CHARS) {
+    throw invalid('body', `body is too long. Maximum ${MAX_MESSAGE_CHARS} characters.`);
+  }
+
+  return { name, description: typeof description === 'string' ? description.trim() : '', body: text };
+}
+
+export class TemplateStore extends DurableObject<Env> {
+  private async all(): Promise<PromptTemplate[]> {
+    const entries = await this.ctx.storage.list<PromptTemplate>({ prefix: TEMPLATE_PREFIX });
+    return [...entries.values()];
+  }
+
+  private nameTaken(templates: PromptTemplate[], name: string, exceptId?: string): boolean {
+    return templates.some(template => template.name === name && template.id !== exceptId);
+  }
+
+  /**
+   * Every template, sorted by name
+   */
+  async list(): Promise<PromptTemplate[]> {
+    const templates = await this.all();
+    return templates.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async get(id: string): Promise<PromptTemplate | null> {
+    return await this.ctx.storage.get<PromptTemplate>(TEMPLATE_PREFIX + id) ?? null;
+  }
+
+  async create(author: PromptTemplate['author'], fields: TemplateFields): Promise<TemplateChange> {
+    const templates = await this.all();
+    if (templates.length >= MAX_TEMPLATES) return { ok: false, reason: 'full' };
+    if (this.nameTaken(templates, fields.name)) return { ok: false, reason: 'name_taken' };
+
+    const now = new Date().toISOString();
+    const template: PromptTemplate = {
+      id: crypto.randomUUID(),
+      ...fields,
+      variables: extractVariables(fields.body),
+      author,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.ctx.storage.put(TEMPLATE_PREFIX + template.id, template);
+    return { ok: true, template };
+  }
+
+  async replace(callerId: string, id: string, fields: TemplateFields): Promise<TemplateChange> {
+    const templates = await this.all();
+    const existing = templates.find(candidate => candidate.id === id);
+    if (!existing) return { ok: false, reason: 'not_found' };
+    if (existing.author.id !== callerId) return { ok: false, reason: 'forbidden' };
+    if (this.nameTaken(templates, fields.name, id)) return { ok: false, reason: 'name_taken' };
+
+    const template: PromptTemplate = {
+      ...existing,
+      ...fields,
+      variables: extractVariables(fields.body),
+      updatedAt: new Date().toISOString(),
+    };
+    await this.ctx.storage.put(TEMPLATE_PREFIX + id, template);
+    return { ok: true, template };
+  }
+
+  async remove(callerId: string, id: string): Promise<TemplateChange> {
+    const template = await this.get(id);
+    if (!template) return { ok: false, reason: 'not_found' };
+    if (template.author.id !== callerId) return { ok: false, reason: 'forbidden' };
+
+    await this.ctx.storage.delete(TEMPLATE_PREFIX + id);
+    return { ok: true, template };
+  }
+}
+
+/**
+ * The team's template store, or null when no binding is configured
+ */
+export function getTemplateStore(env: Env): DurableObjectStub<TemplateStore> | null {
+  if (!env.TEMPLATES) return null;
+  return env.TEMPLATES.get(env.TEMPLATES.idFromName(STORE_NAME));
+}
+
+/**
+ * The changed template, or null when it does not exist. Other refusals are
+ * thrown as ApiErrors.
+ */
+function changed(change: TemplateChange, action: 'change' | 'delete', name: string): PromptTemplate | null {
+  if (change.ok) return change.template;
+
+  switch (change.reason) {
+    case 'not_found':
+      return null;
+    case 'forbidden':
+      throw new ApiError('forbidden', `Only the author can ${action} this template`);
+    case 'name_taken':
+      throw invalid('name', `a template named "${name}" already exists`);
+    case 'full':
+      throw invalid('name', `the team can save at most ${MAX_TEMPLATES} templates`);
+  }
+}
+
+export function listTemplates(store: DurableObjectStub<TemplateStore>): Promise<PromptTemplate[]> {
+  return store.list();
+}
+
+export function getTemplate(store: DurableObjectStub<TemplateStore>, id: string): Promise<PromptTemplate | null> {
+  return store.get(id);
+}
+
+export async function createTemplate(
+  store: DurableObjectStub<TemplateStore>,
+  author: Identity,
+  fields: TemplateFields
+): Promise<PromptTemplate> {
+  const change = await store.create({ id: author.id, name: author.name }, fields);
+  return changed(change, 'change', fields.name)!;
+}
+
+/**
+ * Replace a template's fields. Returns null when it does not exist; throws
+ * `forbidden` when the caller is not its author.
+ */
+export async function replaceTemplate(
+  store: DurableObjectStub<TemplateStore>,
+  caller: Identity,
+  id: string,
+  fields: TemplateFields
+): Promise<PromptTemplate | null> {
+  return changed(await store.replace(caller.id, id, fields), 'change', fields.name);
+}
+
+export async function deleteTemplate(store: DurableObjectStub<TemplateStore>, caller: Identity, id: string): Promise<boolean> {
+  return changed(await store.remove(caller.id, id), 'delete', '') !== null;
+}
@@ -0,0 +1,190 @@
+/**
+ * Tool-calling loop
+ * Runs the tools the model asks for, appends the calls and their results to
+ * the request input, and asks again until the model answers without calling
+ * a tool. The last allowed round is sent without tools, so the model has to
+ * answer with what it has.
+ */
+
+import type { AIProvider, ProviderRequest } from '../providers';
+import { ApiError } from './errors';
+import type { ParsedOutput, ToolCall } from './output';
+import type { ChatStreamEvent, TokenUsage } from './streaming';
+import { executeToolCall, type ToolContext, type ToolStep } from './tools';
+import { requestUpstream } from './upstream';
+
+export interface ToolLoop {
+  provider: AIProvider;
+  // Updated in place as rounds are added
+  request: ProviderRequest;
+  context: ToolContext;
+}
+
+export interface ToolLoopResult {
+  // Text, reasoning and citations from every round, usage summed
+  output: ParsedOutput;
+  steps: ToolStep[];
+}
+
+// Upstream requests per chat message, including the final answer
+export const MAX_TOOL_ROUNDS = 5;
+
+// Separator between the text of consecutive rounds
+const ROUND_SEPARATOR = '\n\n';
+
+/**
+ * Sum usage across rounds. `total` is undefined before the first round; the
+ * sum is null once any round did not report usage.
+ */
+function addUsage(total: TokenUsage | null | undefined, usage: TokenUsage | null | undefined): TokenUsage | null {
+  if (total === undefined) return usage ?? null;
+  if (!total || !usage) return null;
+
+  const sum: TokenUsage = {};
+  for (const key of ['input_tokens', 'output_tokens', 'total_tokens'] as const) {
+    if (total[key] !== undefined || usage[key] !== undefined) {
+      sum[key] = (total[key] ?? 0) + (usage[key] ?? 0);
+    }
+  }
+  return sum;
+}
+
+// Calls run one at a time, in the order the model made them
+async function* runTools(calls: ToolCall[], context: ToolContext): AsyncGenerator<ToolStep> {
+  for (const call of calls) {
+    const started = Date.now();
+    const step = await executeToolCall(call, context);
+    context.log.info('tool.call', { tool: call.name, error: step.error, outputChars: step.output.length, durationMs: Date.now() - started });
+    yield step;
+  }
+}
+
+/**
+ * Add a round's calls and results to the request and ask again
+ */
+async function nextRound(loop: ToolLoop, round: number, calls: ToolCall[], steps: ToolStep[]): Promise<Response> {
+  const { request } = loop;
+  for (const call of calls) {
+    request.input.push({ type: 'function_call', call_id: call.id, name: call.name, arguments: call.arguments });
+  }
+  for (const step of steps) {
+    request.input.push({ type: 'function_call_output', call_id: step.id, output: step.output });
+  }
+  if (round + 1 >= MAX_TOOL_ROUNDS) {
+    delete request.tools;
+  }
+  return requestUpstream(loop.context.env, loop.provider, request, loop.context.log);
+}
+
+/**
+ * Buffered loop: parse each round's body and run its tool calls. `first` is
+ * the response to the request as it was passed in.
+ */
+export async function runToolLoop(loop: ToolLoop, first: Response): Promise<ToolLoopResult> {
+  const steps: ToolStep[] = [];
+  const texts: string[] = [];
+  const reasoning: string[] = [];
+  const refusals: string[] = [];
+  const citations: ParsedOutput['citations'] = [];
+  let usage: TokenUsage | null | undefined;
+  let response = first;
+
+  for (let round = 1; ; round++) {
+    let aiData: unknown;
+    try {
+      aiData = await response.json();
+    } catch {
+      throw new ApiError('upstream_malformed', 'The AI service returned an unreadable response.');
+    }
+    const output = loop.provider.parseResponse(aiData);
+    loop.context.log.debug('upstream.output', { round, outputChars: output.response.length, toolCalls: output.toolCalls.length });
+    if (output.response) {
+      const joined = texts.join(ROUND_SEPARATOR);
+      const offset = joined ? joined.length + ROUND_SEPARATOR.length : 0;
+      for (const citation of output.citations) {
+        citations.push({
+          ...citation,
+          ...(citation.startIndex !== undefined ? { startIndex: citation.startIndex + offset } : {}),
+          ...(citation.endIndex !== undefined ? { endIndex: citation.endIndex + offset } : {}),
+        });
+      }
+      texts.push(output.response);
+    }
+    if (output.reasoning) reasoning.push(output.reasoning);
+    if (output.refusal) refusals.push(output.refusal);
+    usage = addUsage(usage, output.usage);
+
+    if (output.toolCalls.length === 0 || !loop.request.tools) {
+      return {
+        output: {
+          response: texts.join(ROUND_SEPARATOR),
+          reasoning: reasoning.join(ROUND_SEPARATOR) || null,
+          refusal: refusals.join(ROUND_SEPARATOR) || null,
+          citations,
+          toolCalls: output.toolCalls,
+          usage,
+        },
+        steps,
+      };
+    }
+
+    const roundSteps: ToolStep[] = [];
+    for await (const step of runTools(output.toolCalls, loop.context)) {
+      roundSteps.push(step);
+    }
+    steps.push(...roundSteps);
+    response = await nextRound(loop, round, output.toolCalls, roundSteps);
+  }
+}
+
+/**
+ * Streaming loop: relay each round's events, announcing tool calls and their
+ * results as `tool_call` and `tool_result` events, then a single `done` with
+ * the summed usage. Upstream failures in later rounds are thrown as
+ * ApiErrors for the event stream to report.
+ */
+export async function* streamToolLoop(loop: ToolLoop, first: Response, signal: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+  let usage: TokenUsage | null | undefined;
+  let wroteText = false;
+  let response = first;
+
+  for (let round = 1; ; round++) {
+    const calls: ToolCall[] = [];
+    // Text from a later round starts a new paragraph
+    let separate = wroteText;
+
+    for await (const event of loop.provider.events(response, signal)) {
+      if (event.type === 'done') {
+        usage = addUsage(usage, event.usage);
+        continue;
+      }
+      if (event.type === 'tool_call') {
+        if (!loop.request.tools) continue;
+        calls.push(event.call);
+      }
+      if (event.type === 'text') {
+        if (separate) {
+          yield { type: 'text', delta: ROUND_SEPARATOR };
+          separate = false;
+        }
+        wroteText = true;
+      }
+      yield event;
+      if (event.type === 'error') return;
+    }
+
+    if (signal.aborted) return;
+    if (calls.length === 0) {
+      yield usage ? { type: 'done', usage } : { type: 'done' };
+      return;
+    }
+
+    const steps: ToolStep[] = [];
+    for await (const step of runTools(calls, loop.context)) {
+      steps.push(step);
+      yield { type: 'tool_result', step };
+    }
+    if (signal.aborted) return;
+    response = await nextRound(loop, round, calls, steps);
+  }
+}
@@ -0,0 +1,491 @@
+/**
+ * Server-side tools the model can call
+ * Each tool declares a JSON schema that is sent upstream. When the model asks
+ * for a tool, the worker runs it and feeds the result back as a
+ * `function_call_output` item; see toolloop.ts for the loop itself.
+ */
+
+import type { Env } from '../index';
+import type { Identity } from './auth';
+import { errorFields, type Logger } from './log';
+import type { ToolCall } from './output';
+
+export interface ToolContext {
+  env: Env;
+  identity: Identity;
+  log: Logger;
+}
+
+// Responses-style function tool, as sent upstream
+export interface FunctionTool {
+  type: 'function';
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+interface ToolDefinition {
+  name: string;
+  description: string;
+  // JSON schema for the arguments object
+  parameters: Record<string, unknown>;
+  // Whether the deployment has what the tool needs
+  available(env: Env): boolean;
+  execute(args: Record<string, unknown>, context: ToolContext): Promise<unknown>;
+}
+
+// One tool invocation and what it returned, as shown in the chat
+export interface ToolStep {
+  id: string;
+  name: string;
+  // JSON-encoded arguments, exactly as the model produced them
+  arguments: string;
+  // Result passed back to the model, or the error message when it failed
+  output: string;
+  error: boolean;
+}
+
+// Longest tool result handed back to the model, in characters
+export const MAX_TOOL_OUTPUT_CHARS = 8000;
+const TRUNCATION_MARKER = '\n[truncated]';
+
+// Tool steps kept with a saved reply, across every round, and the longest
+// arguments or output each may have
+export const MAX_STORED_TOOL_STEPS = 50;
+const MAX_STORED_STEP_CHARS = 10000;
+
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_FETCH_BYTES = 200 * 1024;
+const MAX_FETCH_REDIRECTS = 3;
+
+const NOTES_PREFIX = 'notes:';
+const MAX_NOTES = 100;
+const MAX_NOTE_CHARS = 1000;
+
+/**
+ * A problem with the arguments or the tool's input, reported back to the
+ * model so it can correct itself
+ */
+class ToolError extends Error {}
+
+function stringArg(args: Record<string, unknown>, name: string, required: true): string;
+function stringArg(args: Record<string, unknown>, name: string, required?: false): string | undefined;
+function stringArg(args: Record<string, unknown>, name: string, required = false): string | undefined {
+  const value = args[name];
+  if (value == null || value === '') {
+    if (required) throw new ToolError(`${name} is required`);
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new ToolError(`${name} must be a string`);
+  }
+  return value;
+}
+
+// Calculator
+
+const FUNCTIONS: Record<string, (...values: number[]) => number> = {
+  abs: Math.abs,
+  ceil: Math.ceil,
+  cos: Math.cos,
+  exp: Math.exp,
+  floor: Math.floor,
+  ln: Math.log,
+  log: Math.log10,
+  max: Math.max,
+  min: Math.min,
+  round: Math.round,
+  sin: Math.sin,
+  sqrt: Math.sqrt,
+  tan: Math.tan,
+};
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+/**
+ * Evaluate an arithmetic expression: numbers, + - * / % ^, parentheses, the
+ * functions above and the constants pi and e. No other input is accepted.
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = expression.match(/\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+|[a-z]+|\*\*|\S/gi) ?? [];
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new ToolError(`expected "${token}"`);
+  };
+
+  // sum := product (('+' | '-') product)*
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') {
+      value = next() === '+' ? value + product() : value - product();
+    }
+    return value;
+  };
+
+  // product := unary (('*' | '/' | '%') unary)*
+  const product = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const operand = unary();
+      value = operator === '*' ? value * operand : operator === '/' ? value / operand : value % operand;
+    }
+    return value;
+  };
+
+  // unary := ('-' | '+') unary | power
+  // The sign applies after exponentiation, so -2^2 is -4
+  const unary = (): number => {
+    if (peek() === '-') {
+      next();
+      return -unary();
+    }
+    if (peek() === '+') {
+      next();
+      return unary();
+    }
+    return power();
+  };
+
+  // power := primary (('^' | '**') unary)?, right-associative; the exponent
+  // may carry its own sign, as in 2^-1
+  const power = (): number => {
+    const base = primary();
+    if (peek() === '^' || peek() === '**') {
+      next();
+      return base ** unary();
+    }
+    return base;
+  };
+
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) throw new ToolError('unexpected end of expression');
+
+    if (token === '(') {
+      const value = sum();
+      expect(')');
+      return value;
+    }
+    if (/^[\d.]/.test(token)) {
+      return Number(token);
+    }
+
+    const name = token.toLowerCase();
+    if (name in CONSTANTS) return CONSTANTS[name];
+    if (name in FUNCTIONS) {
+      expect('(');
+      const values = [sum()];
+      while (peek() === ',') {
+        next();
+        values.push(sum());
+      }
+      expect(')');
+      return FUNCTIONS[name](...values);
+    }
+    throw new ToolError(`unknown token "${token}"`);
+  };
+
+  const value = sum();
+  if (position < tokens.length) {
+    throw new ToolError(`unexpected "${tokens[position]}"`);
+  }
+  if (!Number.isFinite(value)) {
+    throw new ToolError('the result is not a finite number');
+  }
+  return value;
+}
+
+// URL fetching
+
+/**
+ * Hosts fetch_url may read, from the comma-separated TOOL_FETCH_ALLOWLIST
+ * var. `*.example.com` also allows every subdomain.
+ */
+function fetchAllowlist(env: Env): string[] {
+  return (env.TOOL_FETCH_ALLOWLIST || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isAllowedUrl(url: URL, allowlist: string[]): boolean {
+  if (url.protocol !== 'https:' || url.username || url.password || url.port) return false;
+  const host = url.hostname.toLowerCase();
+  return allowlist.some(entry => entry.startsWith('*.')
+    ? host.endsWith(entry.slice(1)) || host === entry.slice(2)
+    : host === entry);
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|noscript|svg)\b[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<br\s*\/?>|<\/(p|div|li|h[1-6]|tr|section|article)>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+async function readLimited(response: Response): Promise<string> {
+  const reader = response.body?.getReader();
+  if (!reader) return '';
+
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  while (bytes < MAX_FETCH_BYTES) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    bytes += value.byteLength;
+    text += decoder.decode(value, { stream: true });
+  }
+  await reader.cancel().catch(() => {});
+  return text;
+}
+
+async function fetchAllowedUrl(rawUrl: string, env: Env): Promise<unknown> {
+  const allowlist = fetchAllowlist(env);
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new ToolError('url is not a valid URL');
+  }
+
+  // Redirects are followed by hand so every hop is checked against the allowlist
+  for (let hop = 0; hop <= MAX_FETCH_REDIRECTS; hop++) {
+    if (!isAllowedUrl(url, allowlist)) {
+      throw new ToolError(`${url.hostname} is not on the allowlist. Allowed hosts: ${allowlist.join(', ')}`);
+    }
+
+    const response = await fetch(url.toString(), {
+      redirect: 'manual',
+      headers: { 'User-Agent': 'ChatBGD-Worker/1.0', 'Accept': 'text/html, text/plain, application/json;q=0.9, */*;q=0.1' },
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    const location = response.headers.get('Location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      url = new URL(location, url);
+      continue;
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (!/^(text\/|application\/(json|xml|[\w.+-]+\+(json|xml)))/i.test(contentType)) {
+      await response.body?.cancel();
+      throw new ToolError(`${url} returned ${contentType || 'an unknown content type'}, which is not text`);
+    }
+
+    const body = await readLimited(response);
+    return {
+      url: url.toString(),
+      status: response.status,
+      contentType,
+      content: /html/i.test(contentType) ? htmlToText(body) : body,
+    };
+  }
+
+  throw new ToolError(`too many redirects (more than ${MAX_FETCH_REDIRECTS})`);
+}
+
+// Notes
+
+interface Note {
+  id: string;
+  text: string;
+  createdAt: string;
+}
+
+function notesKey(owner: string): string {
+  return NOTES_PREFIX + encodeURIComponent(owner);
+}
+
+async function runNotes(args: Record<string, unknown>, { env, identity }: ToolContext): Promise<unknown> {
+  const kv = env.CONVERSATIONS!;
+  const key = notesKey(identity.id);
+  const notes = await kv.get<Note[]>(key, 'json') ?? [];
+  const action = stringArg(args, 'action', true);
+
+  if (action === 'list') {
+    return { notes };
+  }
+
+  if (action === 'add') {
+    const text = stringArg(args, 'text', true).trim();
+    if (text.length > MAX_NOTE_CHARS) throw new ToolError(`text must be at most ${MAX_NOTE_CHARS} characters`);
+    if (notes.length >= MAX_NOTES) throw new ToolError(`there are already ${MAX_NOTES} notes; delete some first`);
+
+    const note: Note = { id: crypto.randomUUID().slice(0, 8), text, createdAt: new Date().toISOString() };
+    await kv.put(key, JSON.stringify([...notes, note]));
+    return { added: note };
+  }
+
+  if (action === 'delete') {
+    const id = stringArg(args, 'id', true);
+    if (!notes.some(note => note.id === id)) throw new ToolError(`no note with id ${id}`);
+    await kv.put(key, JSON.stringify(notes.filter(note => note.id !== id)));
+    return { deleted: id };
+  }
+
+  throw new ToolError('action must be one of add, list, delete');
+}
+
+const TOOLS: ToolDefinition[] = [
+  {
+    name: 'current_time',
+    description: 'Get the current date and time, optionally in a given IANA time zone.',
+    parameters: {
+      type: 'object',
+      properties: {
+        timezone: { type: 'string', description: 'IANA time zone such as "Europe/London". Defaults to UTC.' },
+      },
+    },
+    available: () => true,
+    async execute(args) {
+      const timeZone = stringArg(args, 'timezone') ?? 'UTC';
+      const now = new Date();
+      try {
+        const local = new Intl.DateTimeFormat('en-US', { timeZone, dateStyle: 'full', timeStyle: 'long' }).format(now);
+        return { iso: now.toISOString(), timezone: timeZone, local };
+      } catch {
+        throw new ToolError(`unknown time zone "${timeZone}"`);
+      }
+    },
+  },
+  {
+    name: 'calculator',
+    description: 'Evaluate an arithmetic expression exactly. Supports + - * / % ^, parentheses, sqrt, abs, round, floor, ceil, min, max, exp, ln, log (base 10), sin, cos, tan, pi and e.',
+    parameters: {
+      type: 'object',
+      properties: {
+        expression: { type: 'string', description: 'The expression, e.g. "(3.5 + 2) * sqrt(16)"' },
+      },
+      required: ['expression'],
+    },
+    available: () => true,
+    async execute(args) {
+      const expression = stringArg(args, 'expression', true);
+      return { expression, result: evaluateExpression(expression) };
+    },
+  },
+  {
+    name: 'fetch_url',
+    description: 'Fetch a web page or text document over HTTPS and return its text. Only hosts on the administrator\'s allowlist can be fetched.',
+    parameters: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', description: 'Absolute https:// URL' },
+      },
+      required: ['url'],
+    },
+    available: env => fetchAllowlist(env).length > 0,
+    async execute(args, { env }) {
+      return fetchAllowedUrl(stringArg(args, 'url', true), env);
+    },
+  },
+  {
+    name: 'notes',
+    description: 'Keep short notes for the user that persist across conversations: add a note, list all notes, or delete one by id.',
+    parameters: {
+      type: 'object',
+      properties: {
+        action: { type: 'string', enum: ['add', 'list', 'delete'] },
+        text: { type: 'string', description: 'Note text, for add' },
+        id: { type: 'string', description: 'Note id, for delete' },
+      },
+      required: ['action'],
+    },
+    available: env => Boolean(env.CONVERSATIONS),
+    execute: runNotes,
+  },
+];
+
+/**
+ * Schemas for the tools this deployment can run
+ */
+export function getToolSchemas(env: Env): FunctionTool[] {
+  return TOOLS
+    .filter(tool => tool.available(env))
+    .map(({ name, description, parameters }) => ({ type: 'function', name, description, parameters }));
+}
+
+/**
+ * Cut `text` to at most `limit` characters, ending with a truncation marker
+ */
+export function truncateText(text: string, limit: number): string {
+  return text.length > limit ? text.slice(0, limit - TRUNCATION_MARKER.length) + TRUNCATION_MARKER : text;
+}
+
+/**
+ * Validate a stored message's tool steps, returning undefined when they are
+ * malformed. Steps still waiting for their result (the reply was stopped
+ * mid-call) are dropped. Only the first MAX_STORED_TOOL_STEPS are kept, and
+ * long arguments and outputs are cut short rather than refused.
+ */
+export function parseToolSteps(value: unknown): ToolStep[] | undefined {
+  if (value == null) return [];
+  if (!Array.isArray(value)) return undefined;
+
+  const steps: ToolStep[] = [];
+  for (const item of value.slice(0, MAX_STORED_TOOL_STEPS)) {
+    const { id, name, arguments: args, output, error } = (item ?? {}) as Record<string, unknown>;
+    if (typeof id !== 'string' || typeof name !== 'string' || typeof args !== 'string') return undefined;
+    if (output === null) continue;
+    if (typeof output !== 'string' || typeof error !== 'boolean') return undefined;
+    steps.push({
+      id,
+      name,
+      arguments: truncateText(args, MAX_STORED_STEP_CHARS),
+      output: truncateText(output, MAX_STORED_STEP_CHARS),
+      error,
+    });
+  }
+  return steps;
+}
+
+/**
+ * Run one tool call. Failures never throw: they become an error output the
+ * model can read and react to.
+ */
+export async function executeToolCall(call: ToolCall, context: ToolContext): Promise<ToolStep> {
+  const step = (output: string, error: boolean): ToolStep =>
+    ({ id: call.id, name: call.name, arguments: call.arguments, output: truncateText(output, MAX_TOOL_OUTPUT_CHARS), error });
+
+  const tool = TOOLS.find(candidate => candidate.name === call.name && candidate.available(context.env));
+  if (!tool) {
+    return step(`Error: unknown tool "${call.name}"`, true);
+  }
+
+  let args: unknown;
+  try {
+    args = call.arguments.trim() ? JSON.parse(call.arguments) : {};
+  } catch {
+    return step('Error: arguments are not valid JSON', true);
+  }
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    return step('Error: arguments must be a JSON object', true);
+  }
+
+  try {
+    const result = await tool.execute(args as Record<string, unknown>, context);
+    return step(typeof result === 'string' ? result : JSON.stringify(result), false);
+  } catch (error) {
+    if (error instanceof ToolError) {
+      return step(`Error: ${error.message}`, true);
+    }
+    context.log.error('tool.failed', { tool: call.name, ...errorFields(error) });
+    const timedOut = error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+    return step(timedOut ? 'Error: the tool timed out' : 'Error: the tool failed to run', true);
+  }
+}
@@ -0,0 +1,294 @@
+/**
+ * Upstream requests
+ * Every call to the AI provider goes through `requestUpstream`, which adds:
+ *
+ * - a timeout: buffered replies must arrive within UPSTREAM_TIMEOUT_SECONDS
+ *   (default 90); streams must start within it and then never go quiet for
+ *   longer than UPSTREAM_IDLE_TIMEOUT_SECONDS (default 30)
+ * - retries with jittered exponential backoff, up to UPSTREAM_RETRIES
+ *   (default 2), for failures that are safe to repeat because no model ran:
+ *   connection errors, 502, 503 and 429 (honouring Retry-After). Timeouts are
+ *   not retried, since the model may still be working on the first attempt.
+ * - a circuit breaker per provider: after repeated failures calls fail fast
+ *   with `upstream_unavailable` until a cooldown passes, then a single trial
+ *   request decides whether to close it again. Its state lives in the
+ *   isolate, so each isolate trips on its own.
+ */
+
+import type { Env } from '../index';
+import type { AIProvider, ProviderRequest } from '../providers';
+import { ApiError, upstreamFailure, upstreamStatusError } from './errors';
+import { errorFields, loggedText, type Logger } from './log';
+
+export interface UpstreamPolicy {
+  timeoutMs: number;
+  idleTimeoutMs: number;
+  retries: number;
+}
+
+export interface CircuitState {
+  state: 'closed' | 'open' | 'half_open';
+  // Failures since the last success
+  failures: number;
+  openedAt: string | null;
+}
+
+interface Circuit {
+  failures: number;
+  openedAt: number | null;
+  // A half-open trial request is in flight
+  trial: boolean;
+}
+
+const DEFAULT_TIMEOUT_SECONDS = 90;
+const DEFAULT_IDLE_TIMEOUT_SECONDS = 30;
+const DEFAULT_RETRIES = 2;
+
+const BACKOFF_BASE_MS = 250;
+const BACKOFF_MAX_MS = 4000;
+
+// A 429 asking for a longer wait than this is reported rather than waited out
+const MAX_RETRY_AFTER_MS = 10000;
+
+const RETRY_STATUSES = [429, 502, 503];
+
+// Consecutive failures that open the circuit, and how long it stays open
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30000;
+
+const circuits = new Map<string, Circuit>();
+
+function seconds(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Timeouts and retry count from the environment
+ */
+export function getUpstreamPolicy(env: Env): UpstreamPolicy {
+  return {
+    timeoutMs: seconds(env.UPSTREAM_TIMEOUT_SECONDS, DEFAULT_TIMEOUT_SECONDS) * 1000,
+    idleTimeoutMs: seconds(env.UPSTREAM_IDLE_TIMEOUT_SECONDS, DEFAULT_IDLE_TIMEOUT_SECONDS) * 1000,
+    retries: Math.floor(seconds(env.UPSTREAM_RETRIES, DEFAULT_RETRIES)),
+  };
+}
+
+function circuitFor(provider: string): Circuit {
+  let circuit = circuits.get(provider);
+  if (!circuit) {
+    circuit = { failures: 0, openedAt: null, trial: false };
+    circuits.set(provider, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * The breaker's state for a provider in this isolate
+ */
+export function getCircuitState(provider: string): CircuitState {
+  const circuit = circuitFor(provider);
+  const state = circuit.openedAt === null
+    ? 'closed'
+    : Date.now() - circuit.openedAt < CIRCUIT_COOLDOWN_MS ? 'open' : 'half_open';
+  return {
+    state,
+    failures: circuit.failures,
+    openedAt: circuit.openedAt === null ? null : new Date(circuit.openedAt).toISOString(),
+  };
+}
+
+/**
+ * Fail fast while the circuit is open. Once the cooldown has passed, one
+ * caller is let through as the trial and the rest keep failing fast.
+ */
+function admit(circuit: Circuit): void {
+  if (circuit.openedAt === null) return;
+
+  const waited = Date.now() - circuit.openedAt;
+  if (waited >= CIRCUIT_COOLDOWN_MS && !circuit.trial) {
+    circuit.trial = true;
+    return;
+  }
+  const retryAfter = Math.max(1, Math.ceil((CIRCUIT_COOLDOWN_MS - waited) / 1000));
+  throw new ApiError('upstream_unavailable', 'The AI service is unavailable right now. Please try again in a minute.', { retryAfter });
+}
+
+function recordSuccess(circuit: Circuit): void {
+  circuit.failures = 0;
+  circuit.openedAt = null;
+  circuit.trial = false;
+}
+
+function recordFailure(circuit: Circuit, provider: string, log: Logger): void {
+  circuit.failures++;
+  // A failed trial reopens the circuit straight away
+  if (circuit.trial || circuit.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+    circuit.openedAt = Date.now();
+    log.warn('upstream.circuit_open', { provider, failures: circuit.failures, cooldownMs: CIRCUIT_COOLDOWN_MS });
+  }
+  circuit.trial = false;
+}
+
+// Exponential backoff with the upper half jittered, so retries spread out
+function backoffMs(attempt: number): number {
+  const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1));
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+/**
+ * Milliseconds a Retry-After header asks for, or null when it is missing or
+ * unreadable
+ */
+function retryAfterMs(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+  const delay = /^\d+$/.test(header.trim()) ? Number(header) * 1000 : Date.parse(header) - Date.now();
+  return Number.isFinite(delay) ? Math.max(0, delay) : null;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function timeoutError(message: string, details: Record<string, unknown>): ApiError {
+  return new ApiError('upstream_timeout', message, details);
+}
+
+/**
+ * Relay a streamed body, failing with `upstream_timeout` when no chunk
+ * arrives for `idleMs`
+ */
+function withIdleTimeout(response: Response, idleMs: number, abort: AbortController, onTimeout: () => void): Response {
+  const reader = response.body!.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(stream) {
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const idle = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(timeoutError('The AI service stopped responding. Please try again.', { idleSeconds: idleMs / 1000 })), idleMs);
+      });
+      try {
+        const { done, value } = await Promise.race([reader.read(), idle]);
+        if (done) {
+          stream.close();
+        } else {
+          stream.enqueue(value);
+        }
+      } catch (error) {
+        if (error instanceof ApiError) {
+          onTimeout();
+          abort.abort();
+          reader.cancel().catch(() => {});
+        }
+        stream.error(error);
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+  return new Response(body, response);
+}
+
+/**
+ * One attempt with the timeout applied. Buffered bodies are read here, so a
+ * reply that starts but never finishes also times out.
+ */
+async function attempt(
+  provider: AIProvider,
+  request: ProviderRequest,
+  policy: UpstreamPolicy,
+  onIdleTimeout: () => void
+): Promise<Response> {
+  const abort = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      abort.abort();
+      reject(timeoutError('The AI service took too long to respond. Please try again.', { timeoutSeconds: policy.timeoutMs / 1000 }));
+    }, policy.timeoutMs);
+  });
+  deadline.catch(() => {});
+
+  try {
+    const response = await Promise.race([provider.chat(request, abort.signal), deadline]);
+    if (request.stream && response.ok && response.body) {
+      return withIdleTimeout(response, policy.idleTimeoutMs, abort, onIdleTimeout);
+    }
+    const body = await Promise.race([response.arrayBuffer(), deadline]);
+    return new Response(body, response);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Send a request upstream, turning network failures, timeouts and error
+ * statuses into ApiErrors. Logs the upstream status and latency of every
+ * attempt.
+ */
+export async function requestUpstream(env: Env, provider: AIProvider, request: ProviderRequest, log: Logger): Promise<Response> {
+  const policy = getUpstreamPolicy(env);
+  const circuit = circuitFor(provider.name);
+  admit(circuit);
+
+  const fields = { provider: provider.name, model: request.model ?? null, stream: Boolean(request.stream), inputItems: request.input.length };
+  const onIdleTimeout = () => recordFailure(circuit, provider.name, log);
+
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    const started = Date.now();
+    const canRetry = attemptNumber <= policy.retries;
+
+    let response: Response;
+    try {
+      response = await attempt(provider, request, policy, onIdleTimeout);
+    } catch (error) {
+      const failure = upstreamFailure(error);
+      const retry = canRetry && failure.code !== 'upstream_timeout';
+      const retryInMs = retry ? Math.round(backoffMs(attemptNumber)) : null;
+      log.error('upstream.failed', { ...fields, attempt: attemptNumber, code: failure.code, ...errorFields(error), durationMs: Date.now() - started, retryInMs });
+      if (retryInMs !== null) {
+        await sleep(retryInMs);
+        continue;
+      }
+      recordFailure(circuit, provider.name, log);
+      throw failure;
+    }
+
+    const upstream = {
+      ...fields,
+      attempt: attemptNumber,
+      upstreamStatus: response.status,
+      durationMs: Date.now() - started,
+      responseBytes: Number(response.headers.get('Content-Length')) || null,
+    };
+    if (!response.ok) {
+      let retryInMs: number | null = null;
+      if (canRetry && RETRY_STATUSES.includes(response.status)) {
+        const requested = response.status === 429 ? retryAfterMs(response) : null;
+        retryInMs = requested === null ? Math.round(backoffMs(attemptNumber)) : requested <= MAX_RETRY_AFTER_MS ? requested : null;
+      }
+
+      // Error bodies can echo the prompt, so they are redacted like message text
+      const body = await response.text();
+      log.warn('upstream.error', { ...upstream, body: loggedText(log, body), retryInMs });
+      if (retryInMs !== null) {
+        await sleep(retryInMs);
+        continue;
+      }
+
+      const error = upstreamStatusError(response.status);
+      // Rejections mean the upstream is up; only its own failures count
+      if (error.code === 'upstream_server_error' || error.code === 'upstream_timeout') {
+        recordFailure(circuit, provider.name, log);
+      } else {
+        recordSuccess(circuit);
+      }
+      throw error;
+    }
+
+    recordSuccess(circuit);
+    log.info('upstream.response', upstream);
+    return response;
+  }
+}
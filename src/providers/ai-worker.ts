@@ -0,0 +1,68 @@
+/**
+ * AI worker provider
+ * Talks to the ai-worker service through the AI_WORKER service binding, or
+ * directly over HTTP when AI_WORKER_URL is set (local development, where the
+ * binding is not available).
+ */
+
+import type { Env } from '../index';
+import { parseResponsesOutput } from '../lib/output';
+import { upstreamEvents } from '../lib/streaming';
+import { probeFromError, probeFromResponse } from './responses';
+import type { AIProvider, ProviderRequest } from './types';
+
+const CHAT_PATH = '/api/v1/chat';
+
+// Probed with GET when HEALTH_PROBE = "light" and AI_WORKER_HEALTH_PATH is unset
+const DEFAULT_HEALTH_PATH = '/health';
+
+export function createAIWorkerProvider(env: Env): AIProvider {
+  // POSTs `body` as JSON, or GETs the path when there is no body
+  const send = (path: string, body?: unknown, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'ChatBGD-Worker/1.0',
+    };
+    if (env.CLOUDFLARE_AI_WORKER_API_TOKEN) {
+      headers['Authorization'] = `Bearer ${env.CLOUDFLARE_AI_WORKER_API_TOKEN}`;
+    }
+    const init: RequestInit = body === undefined
+      ? { method: 'GET', headers, signal }
+      : { method: 'POST', headers, body: JSON.stringify(body), signal };
+
+    if (env.AI_WORKER_URL) {
+      return fetch(env.AI_WORKER_URL.replace(/\/$/, '') + path, init);
+    }
+
+    if (!env.AI_WORKER) {
+      throw new Error('AI_WORKER service binding is not configured');
+    }
+
+    // Service binding avoids the same-zone fetch restriction; the host is ignored
+    return env.AI_WORKER.fetch(new Request(`https://ai-worker${path}`, init));
+  };
+
+  return {
+    name: 'ai-worker',
+
+    chat(request: ProviderRequest, signal?: AbortSignal) {
+      return send(CHAT_PATH, request, signal);
+    },
+
+    parseResponse: parseResponsesOutput,
+
+    events: upstreamEvents,
+
+    async healthCheck(signal?: AbortSignal) {
+      try {
+        // The light probe hits a health endpoint instead of generating a reply
+        const response = env.HEALTH_PROBE === 'light'
+          ? await send(env.AI_WORKER_HEALTH_PATH || DEFAULT_HEALTH_PATH, undefined, signal)
+          : await send(CHAT_PATH, { input: 'healthcheck test' }, signal);
+        return await probeFromResponse(response);
+      } catch (error) {
+        return probeFromError(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Provider selection
+ * The upstream is chosen by the AI_PROVIDER var in wrangler.toml (or
+ * .dev.vars), defaulting to the ai-worker service binding.
+ */
+
+import type { Env } from '../index';
+import { createAIWorkerProvider } from './ai-worker';
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import type { AIProvider } from './types';
+import { createWorkersAIProvider } from './workers-ai';
+
+export type { AIProvider, HealthProbe, ProviderRequest } from './types';
+
+const providers: Record<string, (env: Env) => AIProvider> = {
+  'ai-worker': createAIWorkerProvider,
+  'openai': createOpenAIProvider,
+  'workers-ai': createWorkersAIProvider,
+  'mock': createMockProvider,
+};
+
+export function getProvider(env: Env): AIProvider {
+  const name = env.AI_PROVIDER || 'ai-worker';
+  const factory = providers[name];
+  if (!factory) {
+    throw new Error(`Unknown AI_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return factory(env);
+}
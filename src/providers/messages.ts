@@ -0,0 +1,47 @@
+/**
+ * Chat-completions conversion for providers that take `messages` and
+ * `{type: 'function', function}` tools instead of a Responses-style request
+ */
+
+import type { ContentPart } from '../lib/conversation';
+import type { FunctionTool } from '../lib/tools';
+import type { ProviderRequest } from './types';
+
+type ChatMessage = Record<string, unknown>;
+
+function toChatContent(content: string | ContentPart[]): unknown {
+  if (typeof content === 'string') return content;
+  return content.map(part => part.type === 'input_text'
+    ? { type: 'text', text: part.text }
+    : { type: 'image_url', image_url: { url: part.image_url } });
+}
+
+/**
+ * Instructions as a system message followed by the conversation, with
+ * attachment parts in chat-completions form. Consecutive tool calls become
+ * one assistant message with `tool_calls`, and their results `tool` messages.
+ */
+export function toChatMessages(request: ProviderRequest): ChatMessage[] {
+  const messages: ChatMessage[] = request.instructions ? [{ role: 'system', content: request.instructions }] : [];
+
+  for (const item of request.input) {
+    if ('role' in item) {
+      messages.push({ role: item.role, content: toChatContent(item.content) });
+    } else if (item.type === 'function_call') {
+      const call = { id: item.call_id, type: 'function', function: { name: item.name, arguments: item.arguments } };
+      const previous = messages[messages.length - 1];
+      if (previous?.role === 'assistant' && Array.isArray(previous.tool_calls)) {
+        previous.tool_calls.push(call);
+      } else {
+        messages.push({ role: 'assistant', content: null, tool_calls: [call] });
+      }
+    } else {
+      messages.push({ role: 'tool', tool_call_id: item.call_id, content: item.output });
+    }
+  }
+  return messages;
+}
+
+export function toChatTools(tools: FunctionTool[] | undefined): unknown[] | undefined {
+  return tools?.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }));
+}
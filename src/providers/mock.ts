@@ -0,0 +1,76 @@
+/**
+ * Deterministic mock provider for offline development
+ * Echoes the latest user message in a Responses-style body, so the UI,
+ * streaming and parsing paths can be exercised without an upstream.
+ * A message like `!calculator {"expression": "2 + 2"}` makes it call that
+ * tool (when offered), and a tool result is echoed back as the reply.
+ */
+
+import { contentText, type FunctionCallItem } from '../lib/conversation';
+import { parseResponsesOutput } from '../lib/output';
+import { encodeSSE, upstreamEvents } from '../lib/streaming';
+import type { AIProvider, ProviderRequest } from './types';
+
+const TOOL_COMMAND = /^!([\w-]+)\s*(\{[\s\S]*\})?\s*$/;
+
+function mockReply(request: ProviderRequest): { text: string; reasoning: string | null; call: FunctionCallItem | null } {
+  const last = request.input[request.input.length - 1];
+  const priorTurns = request.input.filter(item => 'role' in item).length - 1;
+  const reasoning = request.reasoning ? `Mock reasoning at ${request.reasoning.effort} effort.` : null;
+  const intro = `**Mock reply** from ${request.model || 'default model'} (${priorTurns} prior turns)`;
+
+  if (last && !('role' in last) && last.type === 'function_call_output') {
+    return { text: `${intro}\n\nThe tool returned: ${last.output}`, reasoning, call: null };
+  }
+
+  const latest = last && 'role' in last ? contentText(last.content) : '';
+  const command = latest.trim().match(TOOL_COMMAND);
+  if (command && request.tools?.some(tool => tool.name === command[1])) {
+    const call: FunctionCallItem = { type: 'function_call', call_id: `call_mock_${request.input.length}`, name: command[1], arguments: command[2] || '{}' };
+    return { text: '', reasoning, call };
+  }
+
+  return { text: `${intro}\n\nYou said: ${latest}`, reasoning, call: null };
+}
+
+export function createMockProvider(): AIProvider {
+  return {
+    name: 'mock',
+
+    async chat(request: ProviderRequest) {
+      const { text, reasoning, call } = mockReply(request);
+
+      if (request.stream) {
+        const frames: string[] = [];
+        if (reasoning) {
+          frames.push(encodeSSE('response.reasoning_text.delta', { delta: reasoning }));
+        }
+        // Split on whitespace boundaries so the UI sees several deltas
+        for (const word of text.match(/\S+\s*/g) || []) {
+          frames.push(encodeSSE('response.output_text.delta', { delta: word }));
+        }
+        if (call) {
+          frames.push(encodeSSE('response.output_item.done', { output_index: 0, item: call }));
+        }
+        frames.push(encodeSSE('response.completed', {}));
+
+        return new Response(frames.join(''), { headers: { 'Content-Type': 'text/event-stream' } });
+      }
+
+      const content = [{ type: 'output_text', text }];
+      const output: unknown[] = [call ?? { type: 'message', role: 'assistant', content }];
+      if (reasoning) {
+        output.unshift({ type: 'reasoning', content: [{ type: 'reasoning_text', text: reasoning }] });
+      }
+      return new Response(JSON.stringify({ output }), { headers: { 'Content-Type': 'application/json' } });
+    },
+
+    parseResponse: parseResponsesOutput,
+
+    events: upstreamEvents,
+
+    async healthCheck() {
+      return { healthy: true, status: 200, detail: 'mock provider' };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * OpenAI-compatible provider
+ * Sends chat-completions requests to any endpoint implementing the OpenAI
+ * HTTP API (OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL).
+ */
+
+import type { Env } from '../index';
+import { parseChatCompletionOutput } from '../lib/output';
+import { upstreamEvents } from '../lib/streaming';
+import { toChatMessages, toChatTools } from './messages';
+import { probeFromError, probeFromResponse } from './responses';
+import type { AIProvider, ProviderRequest } from './types';
+
+export function createOpenAIProvider(env: Env): AIProvider {
+  const baseUrl = (env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/$/, '');
+  const model = env.OPENAI_MODEL || 'gpt-4o-mini';
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'User-Agent': 'ChatBGD-Worker/1.0',
+  };
+  if (env.OPENAI_API_KEY) {
+    headers['Authorization'] = `Bearer ${env.OPENAI_API_KEY}`;
+  }
+
+  return {
+    name: 'openai',
+
+    chat(request: ProviderRequest, signal?: AbortSignal) {
+      return fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model: request.model || model,
+          messages: toChatMessages(request),
+          tools: toChatTools(request.tools),
+          stream: request.stream || undefined,
+          stream_options: request.stream ? { include_usage: true } : undefined,
+          reasoning_effort: request.reasoning?.effort,
+          user: request.user,
+        }),
+      });
+    },
+
+    parseResponse: parseChatCompletionOutput,
+
+    events: upstreamEvents,
+
+    async healthCheck(signal?: AbortSignal) {
+      try {
+        // Listing models is cheap and needs no generation
+        return await probeFromResponse(await fetch(`${baseUrl}/models`, { headers, signal }));
+      } catch (error) {
+        return probeFromError(error);
+      }
+    },
+  };
+}
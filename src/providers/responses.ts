@@ -0,0 +1,27 @@
+/**
+ * Shared health probe helpers for HTTP-based providers
+ */
+
+import type { HealthProbe } from './types';
+
+/**
+ * Health probe result for an upstream response
+ */
+export async function probeFromResponse(response: Response): Promise<HealthProbe> {
+  return {
+    healthy: response.ok,
+    status: response.status,
+    detail: await response.text(),
+  };
+}
+
+/**
+ * Health probe result for a thrown fetch/binding error
+ */
+export function probeFromError(error: unknown): HealthProbe {
+  return {
+    healthy: false,
+    status: null,
+    detail: error instanceof Error ? error.message : String(error),
+  };
+}
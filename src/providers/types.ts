@@ -0,0 +1,44 @@
+/**
+ * Upstream AI provider contract
+ * Every provider accepts the same Responses-style request and hands back an
+ * HTTP Response, so status handling in the worker stays provider-agnostic.
+ */
+
+import type { InputItem, ReasoningLevel } from '../lib/conversation';
+import type { ParsedOutput } from '../lib/output';
+import type { ChatStreamEvent } from '../lib/streaming';
+import type { FunctionTool } from '../lib/tools';
+
+export interface ProviderRequest {
+  model?: string;
+  // Stable end-user identifier, forwarded for upstream abuse tracking
+  user?: string;
+  input: InputItem[];
+  instructions?: string;
+  reasoning?: { effort: ReasoningLevel };
+  // Functions the model may call; results come back as function_call_output items
+  tools?: FunctionTool[];
+  stream?: boolean;
+}
+
+export interface HealthProbe {
+  healthy: boolean;
+  status: number | null;
+  detail: string;
+}
+
+export interface AIProvider {
+  name: string;
+
+  /** Send a chat request upstream and return the raw response; `signal` aborts it */
+  chat(request: ProviderRequest, signal?: AbortSignal): Promise<Response>;
+
+  /** Extract the structured reply from a buffered (non-streaming) body */
+  parseResponse(data: unknown): ParsedOutput;
+
+  /** Translate a streaming upstream response into chat stream events */
+  events(upstream: Response, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent>;
+
+  /** Check that the upstream is reachable; `signal` aborts the probe */
+  healthCheck(signal?: AbortSignal): Promise<HealthProbe>;
+}
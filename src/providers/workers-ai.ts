@@ -0,0 +1,78 @@
+/**
+ * Workers AI provider
+ * Runs models through the `AI` binding. gpt-oss models take the
+ * Responses-style body as-is; other models get chat `messages`.
+ */
+
+import type { Env } from '../index';
+import { parseResponsesOutput } from '../lib/output';
+import { upstreamEvents } from '../lib/streaming';
+import { toChatMessages, toChatTools } from './messages';
+import { probeFromError } from './responses';
+import type { AIProvider, ProviderRequest } from './types';
+
+const DEFAULT_MODEL = '@cf/openai/gpt-oss-120b';
+
+export function createWorkersAIProvider(env: Env): AIProvider {
+  const defaultModel = env.WORKERS_AI_MODEL || DEFAULT_MODEL;
+
+  const toInputs = (model: string, { model: _model, user: _user, ...request }: ProviderRequest): Record<string, unknown> => {
+    if (model.startsWith('@cf/openai/gpt-oss')) {
+      return request;
+    }
+    return {
+      messages: toChatMessages(request),
+      tools: toChatTools(request.tools),
+      stream: request.stream || undefined,
+    };
+  };
+
+  return {
+    name: 'workers-ai',
+
+    // The binding cannot be aborted, so timeouts only stop the worker waiting
+    async chat(request: ProviderRequest) {
+      if (!env.AI) {
+        throw new Error('AI binding is not configured');
+      }
+
+      try {
+        const model = request.model || defaultModel;
+        const result = await env.AI.run(model, toInputs(model, request));
+        if (result instanceof ReadableStream) {
+          return new Response(result, { headers: { 'Content-Type': 'text/event-stream' } });
+        }
+        return new Response(JSON.stringify(result), { headers: { 'Content-Type': 'application/json' } });
+      } catch (error) {
+        // Surface binding failures the same way as an upstream 5xx
+        const message = error instanceof Error ? error.message : String(error);
+        return new Response(JSON.stringify({ error: message }), {
+          status: 502,
+          headers: { 'Content-Type': 'application/json' },
+        });
+      }
+    },
+
+    parseResponse: parseResponsesOutput,
+
+    events: upstreamEvents,
+
+    // Like chat, the probe cannot be aborted; checkUpstream stops waiting for it
+    async healthCheck() {
+      if (!env.AI) {
+        return { healthy: false, status: null, detail: 'AI binding is not configured' };
+      }
+      try {
+        // The light probe lists one model instead of running one
+        if (env.HEALTH_PROBE === 'light') {
+          await env.AI.models({ per_page: 1 });
+        } else {
+          await env.AI.run(defaultModel, toInputs(defaultModel, { input: [{ role: 'user', content: 'healthcheck test' }] }));
+        }
+        return { healthy: true, status: 200, detail: 'OK' };
+      } catch (error) {
+        return probeFromError(error);
+      }
+    },
+  };
+}
@@ -0,0 +1,112 @@
+/**
+ * Admin routes, for users listed in ADMIN_USERS (the API also accepts ADMIN_TOKEN)
+ *   GET /admin                          (usage dashboard page)
+ *   GET /admin/api/usage?days=          (aggregated usage, default 7 days)
+ *   GET /admin/api/usage/events?date=   (one UTC day's raw events)
+ *   GET /admin/api/diagnostics          (bindings, masked config, build)
+ *   GET /admin/api/upstream             (live upstream probe)
+ */
+
+import type { Env } from '../index';
+import { buildUsageReport, listUsageEvents, DEFAULT_REPORT_DAYS, MAX_REPORT_DAYS } from '../lib/analytics';
+import { isAdmin, type Identity } from '../lib/auth';
+import { checkUpstream, describeBindings, describeConfig } from '../lib/diagnostics';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { buildInfo, staticAssets } from '../lib/static';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// `git describe --dirty` marks builds from a checkout with uncommitted changes
+const DIRTY_SUFFIX = '-dirty';
+
+/**
+ * The embedded assets' build info plus the commit `npm run deploy` recorded
+ */
+function describeBuild(env: Env) {
+  const commit = env.BUILD_COMMIT || null;
+  const dirty = Boolean(commit?.endsWith(DIRTY_SUFFIX));
+  return {
+    version: buildInfo.version,
+    commit: dirty ? commit!.slice(0, -DIRTY_SUFFIX.length) : commit,
+    dirty,
+    assetsHash: buildInfo.assetsHash,
+  };
+}
+
+/**
+ * The dashboard page. Signed-out visitors are sent to sign in; signed-in
+ * users who are not admins get the same 404 as any unknown page.
+ */
+export function handleAdminPage(env: Env, url: URL, identity: Identity | null): Response {
+  if (!identity) {
+    return Response.redirect(new URL('/login', url).toString(), 302);
+  }
+  const page = staticAssets['/admin.html'];
+  if (!isAdmin(env, identity) || !page) {
+    return new Response('Not Found', { status: 404 });
+  }
+  return new Response(page, {
+    headers: {
+      'Content-Type': 'text/html; charset=UTF-8',
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+/**
+ * Route a request under /admin/api for an admin. Returns null when the path
+ * or method does not match so the caller can fall through.
+ */
+export async function handleAdminRequest(request: Request, env: Env, path: string): Promise<Response | null> {
+  if (request.method !== 'GET') return null;
+
+  const kv = env.ANALYTICS;
+  const params = new URL(request.url).searchParams;
+
+  if (path === '/admin/api/usage') {
+    if (!kv) {
+      return errorResponse('not_configured', 'Usage analytics are not configured');
+    }
+
+    let days = DEFAULT_REPORT_DAYS;
+    if (params.has('days')) {
+      days = Number(params.get('days'));
+      if (!Number.isInteger(days) || days < 1 || days > MAX_REPORT_DAYS) {
+        return errorResponse('validation_error', `Invalid request: days must be between 1 and ${MAX_REPORT_DAYS}`, { field: 'days' });
+      }
+    }
+    return jsonResponse(await buildUsageReport(kv, days));
+  }
+
+  if (path === '/admin/api/usage/events') {
+    if (!kv) {
+      return errorResponse('not_configured', 'Usage analytics are not configured');
+    }
+
+    const date = params.get('date') || new Date().toISOString().slice(0, 10);
+    if (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date))) {
+      return errorResponse('validation_error', 'Invalid request: date must be YYYY-MM-DD', { field: 'date' });
+    }
+    const { events, truncated } = await listUsageEvents(kv, date);
+    return jsonResponse({ date, events, truncated });
+  }
+
+  if (path === '/admin/api/diagnostics') {
+    return jsonResponse({
+      environment: env.ENVIRONMENT ?? null,
+      apiVersion: env.API_VERSION ?? null,
+      build: describeBuild(env),
+      bindings: describeBindings(env),
+      config: describeConfig(env),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // Sends a real probe upstream, which may cost a model call
+  if (path === '/admin/api/upstream') {
+    const check = await checkUpstream(env);
+    return jsonResponse(check, check.healthy ? 200 : 503);
+  }
+
+  return null;
+}
@@ -0,0 +1,71 @@
+/**
+ * Attachment routes
+ *   POST   /api/attachments        (multipart form with a `file` field)
+ *   GET    /api/attachments/:id
+ *   DELETE /api/attachments/:id
+ */
+
+import type { Env } from '../index';
+import type { Identity } from '../lib/auth';
+import { deleteAttachment, getAttachmentFile, saveAttachment, toAttachmentRef } from '../lib/attachments';
+import { attachmentDisposition, errorResponse, jsonResponse } from '../lib/http';
+import type { Logger } from '../lib/log';
+
+/**
+ * Route a request under /api/attachments. Returns null when the path or
+ * method does not match so the caller can fall through. Attachments are only
+ * visible to the user who uploaded them.
+ */
+export async function handleAttachmentsRequest(
+  request: Request,
+  env: Env,
+  path: string,
+  identity: Identity,
+  log: Logger
+): Promise<Response | null> {
+  const match = path.match(/^\/api\/attachments(?:\/([\w-]+))?\/?$/);
+  if (!match) return null;
+
+  const [, id] = match;
+  const method = request.method;
+  const owner = identity.id;
+
+  if (!id) {
+    if (method !== 'POST') return null;
+
+    let file: unknown;
+    try {
+      file = (await request.formData()).get('file');
+    } catch {
+      file = null;
+    }
+    if (!(file instanceof File)) {
+      return errorResponse('validation_error', 'Invalid request: expected a multipart form with a file field', { field: 'file' });
+    }
+
+    const info = await saveAttachment(env, owner, file, log);
+    return jsonResponse(toAttachmentRef(info), 201);
+  }
+
+  if (method === 'GET') {
+    const stored = await getAttachmentFile(env, owner, id);
+    if (!stored) {
+      return errorResponse('not_found', 'Attachment not found');
+    }
+    return new Response(stored.data, {
+      headers: {
+        'Content-Type': stored.info.type,
+        'Content-Disposition': attachmentDisposition(stored.info.name),
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  }
+
+  if (method === 'DELETE') {
+    const deleted = await deleteAttachment(env, owner, id);
+    return deleted ? new Response(null, { status: 204 })
+      : errorResponse('not_found', 'Attachment not found');
+  }
+
+  return null;
+}
@@ -0,0 +1,46 @@
+/**
+ * Auth API routes
+ *   POST /api/auth/login
+ *   POST /api/auth/logout
+ *   GET  /api/auth/me
+ */
+
+import type { Env } from '../index';
+import { createSessionToken, isAdmin, sessionCookie, verifyCredentials, type Identity } from '../lib/auth';
+import { errorResponse, jsonResponse, readJsonObject } from '../lib/http';
+import { loggedText, type Logger } from '../lib/log';
+
+export async function handleLogin(request: Request, env: Env, log: Logger): Promise<Response> {
+  if (!env.SESSION_SECRET) {
+    return errorResponse('not_configured', 'Password sign-in is not configured');
+  }
+
+  const body = await readJsonObject(request);
+  const username = typeof body?.username === 'string' ? body.username.trim() : '';
+  const password = typeof body?.password === 'string' ? body.password : '';
+  if (!username || !password) {
+    return errorResponse('validation_error', 'Invalid request: username and password are required');
+  }
+
+  if (!await verifyCredentials(env, username, password, log)) {
+    // A password typed into the username field must not reach the logs
+    log.warn('auth.login_failed', { username: loggedText(log, username) });
+    return errorResponse('unauthorized', 'Invalid username or password');
+  }
+
+  const { token, maxAge } = await createSessionToken(env, username, username);
+  log.info('auth.login');
+  return jsonResponse(
+    { user: { id: username, name: username, method: 'session' } },
+    200,
+    { 'Set-Cookie': sessionCookie(token, maxAge) }
+  );
+}
+
+export function handleLogout(): Response {
+  return jsonResponse({ ok: true }, 200, { 'Set-Cookie': sessionCookie('', 0) });
+}
+
+export function handleMe(env: Env, identity: Identity): Response {
+  return jsonResponse({ user: identity, admin: isAdmin(env, identity) });
+}
@@ -0,0 +1,244 @@
+/**
+ * Chat API routes
+ *   POST /api/chat              (JSON, or SSE with ?stream=1)
+ *   POST /api/chat/stream       (SSE)
+ */
+
+import type { Env } from '../index';
+import { recordUsage, usageTokens } from '../lib/analytics';
+import type { Identity } from '../lib/auth';
+import { buildAttachmentContent, loadAttachments, MAX_ATTACHMENT_TEXT_CHARS, type LoadedAttachment } from '../lib/attachments';
+import { buildConversationInput, contentText } from '../lib/conversation';
+import { ApiError, type ErrorCode } from '../lib/errors';
+import { apiErrorResponse, jsonResponse, readJson } from '../lib/http';
+import { errorFields, loggedHeaders, loggedText, type Logger } from '../lib/log';
+import { historyBudgetChars, resolveModel } from '../lib/models';
+import { hasOutput } from '../lib/output';
+import { resolvePreset, type PresetRef } from '../lib/presets';
+import { getRateLimiter, getRateLimits, rateLimitHeaders, rateLimitMessage, tokensUsed } from '../lib/ratelimit';
+import { parseChatRequest, type ChatResponse } from '../lib/schema';
+import { createChatEventStream, type TokenUsage } from '../lib/streaming';
+import { runToolLoop, streamToolLoop, type ToolLoop } from '../lib/toolloop';
+import { getToolSchemas } from '../lib/tools';
+import { requestUpstream } from '../lib/upstream';
+import { getProvider, type ProviderRequest } from '../providers';
+
+/**
+ * Handle chat API requests by proxying to the configured AI provider.
+ * When `stream` is set, the upstream output is relayed as Server-Sent Events.
+ * Every request, failed or not, is recorded for usage analytics.
+ */
+export async function handleChatRequest(
+  request: Request,
+  env: Env,
+  identity: Identity,
+  ctx: ExecutionContext,
+  log: Logger,
+  stream: boolean = false
+): Promise<Response> {
+  const started = Date.now();
+  let quotaHeaders: Record<string, string> = {};
+
+  // Known once the request has been validated
+  let modelId: string | null = null;
+  let reasoning: string | null = null;
+  const record = (status: number, code: ErrorCode | null, usage: TokenUsage | null = null, tokens: number = 0) => {
+    const event = {
+      at: new Date(started).toISOString(),
+      user: identity.id,
+      model: modelId,
+      reasoningLevel: reasoning,
+      stream,
+      ...usageTokens(usage),
+      tokens,
+      latencyMs: Date.now() - started,
+      status,
+      error: code,
+    };
+    ctx.waitUntil(recordUsage(env.ANALYTICS, log.requestId, event)
+      .catch(error => log.warn('analytics.failed', errorFields(error))));
+  };
+
+  try {
+    // Parse and validate the request body
+    const chatRequest = parseChatRequest(await readJson(request));
+    const { message, history, reasoningLevel, model, presetId, attachments, summary } = chatRequest;
+    let { instructions } = chatRequest;
+    log.debug('chat.request', {
+      stream,
+      headers: loggedHeaders(log, request.headers),
+      message: loggedText(log, message),
+      instructions: loggedText(log, instructions),
+      summary: loggedText(log, summary),
+      historyTurns: history.length,
+      model: model ?? null,
+      presetId: presetId ?? null,
+      reasoningLevel: reasoningLevel ?? null,
+      attachments: attachments?.length ?? 0,
+    });
+
+    // Validate the model against the admin allowlist
+    const modelInfo = resolveModel(env, model);
+    if (!modelInfo) {
+      throw new ApiError('validation_error', 'Invalid request: model is not available', { field: 'model' });
+    }
+
+    modelId = modelInfo.id;
+
+    if (reasoningLevel && !modelInfo.supportsReasoning) {
+      throw new ApiError('validation_error', `Invalid request: ${modelInfo.name} does not support reasoning`, { field: 'reasoningLevel' });
+    }
+    reasoning = reasoningLevel ?? null;
+
+    // A selected preset supplies the instructions
+    let preset: PresetRef | null = null;
+    if (presetId) {
+      const resolved = await resolvePreset(env, identity.id, presetId);
+      if (!resolved) {
+        throw new ApiError('validation_error', 'Invalid request: preset not found', { field: 'presetId' });
+      }
+      preset = { id: resolved.id, name: resolved.name };
+      instructions = resolved.instructions;
+    }
+
+    // Load attachments, enforcing per-file size limits and the model's context budget
+    let loaded: LoadedAttachment[] = [];
+    if (attachments) {
+      loaded = await loadAttachments(env, identity.id, attachments, Math.min(MAX_ATTACHMENT_TEXT_CHARS, modelInfo.contextLimit * 2));
+      if (!modelInfo.supportsVision && loaded.some(attachment => attachment.info.kind === 'image')) {
+        throw new ApiError('validation_error', `Invalid request: ${modelInfo.name} does not accept images`, { field: 'attachments' });
+      }
+    }
+
+    // Build multi-turn input, trimming the oldest turns to fit the model's
+    // budget less whatever the summary of earlier turns takes
+    const conversation = buildConversationInput(history, message, historyBudgetChars(modelInfo) - (summary?.length ?? 0));
+    if (loaded.length > 0) {
+      conversation.input[conversation.input.length - 1].content = buildAttachmentContent(message, loaded);
+    }
+
+    // Prepare AI service request
+    const provider = getProvider(env);
+    const aiRequestBody: ProviderRequest = {
+      model: modelInfo.id,
+      user: identity.id,
+      input: conversation.input
+    };
+
+    if (instructions || summary) {
+      aiRequestBody.instructions = [instructions, summary && `Summary of the earlier conversation:\n${summary}`]
+        .filter(Boolean)
+        .join('\n\n');
+    }
+
+    if (reasoningLevel) {
+      aiRequestBody.reasoning = { effort: reasoningLevel };
+    }
+
+    // Offer the worker's tools to models that can call them
+    const tools = modelInfo.supportsTools ? getToolSchemas(env) : [];
+    if (tools.length > 0) {
+      aiRequestBody.tools = tools;
+    }
+
+    // Ask the provider for incremental output
+    if (stream) {
+      aiRequestBody.stream = true;
+    }
+
+    // Enforce per-caller rate limits and daily quotas before spending upstream tokens
+    const limiter = getRateLimiter(env, request, identity);
+    if (limiter) {
+      const quota = await limiter.consume(getRateLimits(env));
+      quotaHeaders = rateLimitHeaders(quota);
+
+      if (!quota.allowed) {
+        log.warn('chat.rate_limited', { reason: quota.reason, retryAfter: quota.retryAfter });
+        throw new ApiError('rate_limited', rateLimitMessage(quota), { retryAfter: quota.retryAfter, quota });
+      }
+    }
+
+    // Charge the daily token budget once the reply is known, and log and
+    // record what the exchange cost
+    const promptText = (aiRequestBody.instructions || '') + conversation.input.map(turn => contentText(turn.content)).join('\n');
+    const context = {
+      provider: provider.name,
+      model: modelInfo.id,
+      stream,
+      promptChars: promptText.length,
+      turnsSent: conversation.turnsSent,
+      turnsDropped: conversation.turnsDropped,
+      attachments: loaded.length,
+    };
+    const finish = async (
+      usage: TokenUsage | null | undefined,
+      output: string,
+      fields: Record<string, unknown>,
+      code: ErrorCode | null = null
+    ) => {
+      const tokens = tokensUsed(usage, promptText, output);
+      log.info('chat.completed', { ...context, ...fields, outputChars: output.length, tokens, usage: usage ?? null, durationMs: Date.now() - started });
+      record(200, code, usage, tokens);
+      await limiter?.recordTokens(tokens);
+    };
+
+    // The first round is requested here so its failures get a proper status;
+    // later tool rounds report failures in-band
+    const aiResponse = await requestUpstream(env, provider, aiRequestBody, log);
+    const loop: ToolLoop = { provider, request: aiRequestBody, context: { env, identity, log } };
+
+    // Relay incremental output as SSE
+    if (stream) {
+      const abort = new AbortController();
+      const eventStream = createChatEventStream(
+        streamToolLoop(loop, aiResponse, abort.signal),
+        log,
+        (result) => finish(result.usage, result.reasoning + result.text, { cancelled: abort.signal.aborted }, result.error),
+        () => abort.abort()
+      );
+      return new Response(eventStream, {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/event-stream; charset=UTF-8',
+          'Cache-Control': 'no-cache',
+          'X-Model': modelInfo.id,
+          ...(preset ? { 'X-Preset-Id': preset.id } : {}),
+          'X-Conversation-Turns-Sent': String(conversation.turnsSent),
+          'X-Conversation-Turns-Dropped': String(conversation.turnsDropped),
+          ...quotaHeaders,
+        },
+      });
+    }
+
+    // Extract the reply, reasoning, refusal, citations and tool calls, running tools along the way
+    const { output, steps } = await runToolLoop(loop, aiResponse);
+    if (!hasOutput(output)) {
+      throw new ApiError('upstream_malformed', 'The AI service returned an empty response.');
+    }
+    await finish(output.usage, (output.reasoning || '') + output.response + (output.refusal || ''), { toolSteps: steps.length });
+    log.debug('chat.response', { response: loggedText(log, output.response), reasoning: loggedText(log, output.reasoning) });
+
+    const finalResponse: ChatResponse = {
+      ...output,
+      model: modelInfo.id,
+      preset,
+      toolSteps: steps,
+      context: {
+        turnsSent: conversation.turnsSent,
+        turnsDropped: conversation.turnsDropped
+      }
+    };
+    return jsonResponse(finalResponse, 200, quotaHeaders);
+
+  } catch (error) {
+    if (error instanceof ApiError) {
+      log.warn('chat.failed', { code: error.code, status: error.status, details: error.details ?? null, durationMs: Date.now() - started });
+      record(error.status, error.code);
+      return apiErrorResponse(error, quotaHeaders);
+    }
+
+    log.error('chat.unhandled', { ...errorFields(error), durationMs: Date.now() - started });
+    record(500, 'internal_error');
+    return apiErrorResponse(new ApiError('internal_error', 'An unexpected error occurred'));
+  }
+}
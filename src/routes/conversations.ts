@@ -0,0 +1,229 @@
+/**
+ * Conversation API routes
+ *   GET    /api/conversations
+ *   POST   /api/conversations
+ *   POST   /api/conversations/import
+ *   GET    /api/conversations/:id
+ *   PATCH  /api/conversations/:id
+ *   DELETE /api/conversations/:id
+ *   POST   /api/conversations/:id/messages
+ *   POST   /api/conversations/:id/summary
+ *   GET    /api/conversations/:id/export?format=markdown|json|html
+ */
+
+import type { Env } from '../index';
+import type { Identity } from '../lib/auth';
+import { EXPORT_FORMATS, exportConversation, parseConversationExport, type ExportFormat } from '../lib/export';
+import { ApiError } from '../lib/errors';
+import { apiErrorResponse, errorResponse, jsonResponse, asArray, readJson, readJsonObject } from '../lib/http';
+import type { Logger } from '../lib/log';
+import { getRateLimiter, getRateLimits, rateLimitHeaders, rateLimitMessage } from '../lib/ratelimit';
+import {
+  appendMessages,
+  createConversation,
+  deleteConversation,
+  getConversation,
+  importConversation,
+  listConversations,
+  parseMessage,
+  saveSummary,
+  updateConversation,
+  DEFAULT_TITLE,
+  MAX_TITLE_CHARS,
+  type ConversationChanges,
+  type NewMessage,
+} from '../lib/store';
+import { generateTitle, needsTitle, summarizeBranch } from '../lib/summaries';
+
+/**
+ * Route a request under /api/conversations. Returns null when the path or
+ * method does not match so the caller can fall through. Every conversation
+ * is scoped to the calling identity. Titles are generated after the response
+ * is sent, through `ctx.waitUntil`.
+ */
+export async function handleConversationsRequest(
+  request: Request,
+  env: Env,
+  path: string,
+  identity: Identity,
+  ctx: ExecutionContext,
+  log: Logger
+): Promise<Response | null> {
+  const match = path.match(/^\/api\/conversations(?:\/([\w-]+)(\/messages|\/export|\/summary)?)?\/?$/);
+  if (!match) return null;
+
+  const kv = env.CONVERSATIONS;
+  if (!kv) {
+    return errorResponse('not_configured', 'Conversation storage is not configured');
+  }
+
+  const [, id, suffix] = match;
+  const method = request.method;
+  const owner = identity.id;
+
+  if (!id) {
+    if (method === 'GET') {
+      return jsonResponse({ conversations: await listConversations(kv, owner) });
+    }
+    if (method === 'POST') {
+      const body = await readJsonObject(request) ?? {};
+      const title = parseTitle(body.title);
+      if (title === null) {
+        return errorResponse('validation_error', `Invalid request: title must be 1-${MAX_TITLE_CHARS} characters`, { field: 'title' });
+      }
+      return jsonResponse(await createConversation(kv, owner, title ?? DEFAULT_TITLE), 201);
+    }
+    return null;
+  }
+
+  if (id === 'import' && !suffix) {
+    if (method !== 'POST') return null;
+    const data = parseConversationExport(await readJson(request));
+    return jsonResponse(await importConversation(kv, owner, data), 201);
+  }
+
+  if (suffix === '/export') {
+    if (method !== 'GET') return null;
+
+    const format = new URL(request.url).searchParams.get('format') || 'json';
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return errorResponse('validation_error', `Invalid request: format must be one of ${EXPORT_FORMATS.join(', ')}`, { field: 'format' });
+    }
+    const conversation = await getConversation(kv, owner, id);
+    if (!conversation) {
+      return errorResponse('not_found', 'Conversation not found');
+    }
+
+    const file = exportConversation(conversation, format as ExportFormat);
+    return new Response(file.body, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  }
+
+  if (suffix === '/summary') {
+    if (method !== 'POST') return null;
+    return handleSummaryRequest(request, env, kv, identity, id, log);
+  }
+
+  if (suffix) {
+    if (method !== 'POST') return null;
+
+    const body = await readJsonObject(request);
+    const rawMessages = Array.isArray(body?.messages) ? asArray(body.messages) : body ? [body] : [];
+    const messages = rawMessages.map(parseMessage);
+    if (messages.length === 0 || messages.some(message => message === null)) {
+      return errorResponse('validation_error', 'Invalid request: messages must be user/assistant turns with string content', { field: 'messages' });
+    }
+
+    // Omitted: continue the active branch; null: start a new root branch
+    const parentId = Array.isArray(body?.messages) ? body.parentId : undefined;
+    if (parentId !== undefined && parentId !== null && typeof parentId !== 'string') {
+      return errorResponse('validation_error', 'Invalid request: parentId must be a message id or null', { field: 'parentId' });
+    }
+
+    const conversation = await appendMessages(kv, owner, id, messages as NewMessage[], parentId);
+    if (!conversation) {
+      return errorResponse('not_found', 'Conversation not found');
+    }
+
+    // Name the conversation once its first exchange is saved
+    if (needsTitle(conversation)) {
+      ctx.waitUntil(generateTitle(env, kv, owner, conversation, getRateLimiter(env, request, identity), log));
+    }
+    return jsonResponse(conversation, 201);
+  }
+
+  if (method === 'GET') {
+    const conversation = await getConversation(kv, owner, id);
+    return conversation ? jsonResponse(conversation) : errorResponse('not_found', 'Conversation not found');
+  }
+
+  if (method === 'PATCH') {
+    const body = await readJsonObject(request);
+    const changes: ConversationChanges = {};
+
+    const title = parseTitle(body?.title);
+    if (title === null) {
+      return errorResponse('validation_error', `Invalid request: title must be 1-${MAX_TITLE_CHARS} characters`, { field: 'title' });
+    }
+    if (title !== undefined) changes.title = title;
+
+    if (body?.activeLeafId !== undefined) {
+      if (typeof body.activeLeafId !== 'string') {
+        return errorResponse('validation_error', 'Invalid request: activeLeafId must be a message id', { field: 'activeLeafId' });
+      }
+      changes.activeLeafId = body.activeLeafId;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return errorResponse('validation_error', 'Invalid request: nothing to update', { field: 'title' });
+    }
+    const conversation = await updateConversation(kv, owner, id, changes);
+    return conversation ? jsonResponse(conversation) : errorResponse('not_found', 'Conversation not found');
+  }
+
+  if (method === 'DELETE') {
+    const deleted = await deleteConversation(kv, owner, id);
+    return deleted ? new Response(null, { status: 204 })
+      : errorResponse('not_found', 'Conversation not found');
+  }
+
+  return null;
+}
+
+/**
+ * Summarise the branch ending at `messageId` (the active leaf by default) and
+ * keep the summary on the conversation. It takes a per-minute request slot
+ * and its tokens count against the daily budget, but it is not counted as a
+ * message.
+ */
+async function handleSummaryRequest(
+  request: Request,
+  env: Env,
+  kv: KVNamespace,
+  identity: Identity,
+  id: string,
+  log: Logger
+): Promise<Response> {
+  const body = await readJsonObject(request) ?? {};
+  const conversation = await getConversation(kv, identity.id, id);
+  if (!conversation) {
+    return errorResponse('not_found', 'Conversation not found');
+  }
+
+  const messageId = body.messageId ?? conversation.activeLeafId;
+  if (typeof messageId !== 'string' || !conversation.messages.some(message => message.id === messageId)) {
+    return errorResponse('validation_error', 'Invalid request: messageId is not a message in this conversation', { field: 'messageId' });
+  }
+
+  let quotaHeaders: Record<string, string> = {};
+  const limiter = getRateLimiter(env, request, identity);
+  if (limiter) {
+    // Each summary is an upstream request, so it takes a per-minute slot
+    const quota = await limiter.consume(getRateLimits(env), false);
+    quotaHeaders = rateLimitHeaders(quota);
+    if (!quota.allowed) {
+      log.warn('summary.rate_limited', { reason: quota.reason, retryAfter: quota.retryAfter });
+      return apiErrorResponse(new ApiError('rate_limited', rateLimitMessage(quota), { retryAfter: quota.retryAfter, quota }), quotaHeaders);
+    }
+  }
+
+  const { summary, tokens } = await summarizeBranch(env, identity.id, conversation, messageId, log);
+  await limiter?.recordTokens(tokens);
+
+  const saved = await saveSummary(kv, identity.id, id, summary);
+  return saved ? jsonResponse(summary, 200, quotaHeaders) : errorResponse('not_found', 'Conversation not found');
+}
+
+/**
+ * Returns the trimmed title, undefined when absent, or null when invalid
+ */
+function parseTitle(value: unknown): string | undefined | null {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') return null;
+  const title = value.trim();
+  return title && title.length <= MAX_TITLE_CHARS ? title : null;
+}
@@ -0,0 +1,16 @@
+/**
+ * Model API routes
+ *   GET /api/models
+ */
+
+import type { Env } from '../index';
+import { jsonResponse } from '../lib/http';
+import { getModels } from '../lib/models';
+
+export function handleModelsRequest(env: Env): Response {
+  const models = getModels(env);
+  return jsonResponse({
+    models,
+    defaultModel: models[0].id,
+  });
+}
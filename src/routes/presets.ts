@@ -0,0 +1,72 @@
+/**
+ * Instruction preset routes
+ *   GET    /api/presets
+ *   POST   /api/presets
+ *   PATCH  /api/presets/:id
+ *   DELETE /api/presets/:id
+ */
+
+import type { Env } from '../index';
+import type { Identity } from '../lib/auth';
+import { errorResponse, jsonResponse, readJson } from '../lib/http';
+import {
+  createPreset,
+  deletePreset,
+  getTeamPresets,
+  listPresets,
+  parsePresetChanges,
+  updatePreset,
+  type PresetChanges,
+} from '../lib/presets';
+
+/**
+ * Route a request under /api/presets. Returns null when the path or method
+ * does not match so the caller can fall through. Team presets are listed for
+ * everyone but only a user's own presets can be changed.
+ */
+export async function handlePresetsRequest(
+  request: Request,
+  env: Env,
+  path: string,
+  identity: Identity
+): Promise<Response | null> {
+  const match = path.match(/^\/api\/presets(?:\/([\w-]+))?\/?$/);
+  if (!match) return null;
+
+  const [, id] = match;
+  const method = request.method;
+  const owner = identity.id;
+
+  if (!id && method === 'GET') {
+    return jsonResponse({ presets: await listPresets(env, owner) });
+  }
+
+  const kv = env.CONVERSATIONS;
+  if (!kv) {
+    return errorResponse('not_configured', 'Preset storage is not configured');
+  }
+
+  if (!id) {
+    if (method !== 'POST') return null;
+    const fields = parsePresetChanges(await readJson(request)) as Required<PresetChanges>;
+    return jsonResponse(await createPreset(kv, owner, fields), 201);
+  }
+
+  if (getTeamPresets(env).some(preset => preset.id === id) && (method === 'PATCH' || method === 'DELETE')) {
+    return errorResponse('validation_error', 'Invalid request: team presets cannot be changed', { field: 'id' });
+  }
+
+  if (method === 'PATCH') {
+    const changes = parsePresetChanges(await readJson(request), true);
+    const preset = await updatePreset(kv, owner, id, changes);
+    return preset ? jsonResponse(preset) : errorResponse('not_found', 'Preset not found');
+  }
+
+  if (method === 'DELETE') {
+    const deleted = await deletePreset(kv, owner, id);
+    return deleted ? new Response(null, { status: 204 })
+      : errorResponse('not_found', 'Preset not found');
+  }
+
+  return null;
+}
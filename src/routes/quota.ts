@@ -0,0 +1,19 @@
+/**
+ * Quota API routes
+ *   GET /api/quota
+ */
+
+import type { Env } from '../index';
+import type { Identity } from '../lib/auth';
+import { jsonResponse } from '../lib/http';
+import { getRateLimiter, getRateLimits, rateLimitHeaders } from '../lib/ratelimit';
+
+export async function handleQuotaRequest(request: Request, env: Env, identity: Identity): Promise<Response> {
+  const limiter = getRateLimiter(env, request, identity);
+  if (!limiter) {
+    return jsonResponse({ quota: null });
+  }
+
+  const status = await limiter.status(getRateLimits(env));
+  return jsonResponse({ quota: status }, 200, rateLimitHeaders(status));
+}
@@ -0,0 +1,43 @@
+/**
+ * Conversation search route
+ *   GET /api/search?q=&reasoning=1&limit=
+ */
+
+import type { Env } from '../index';
+import type { Identity } from '../lib/auth';
+import { errorResponse, jsonResponse } from '../lib/http';
+import { DEFAULT_SEARCH_LIMIT, MAX_QUERY_CHARS, MAX_SEARCH_LIMIT, parseQuery, searchConversations } from '../lib/search';
+
+/**
+ * Search the caller's conversations. Reasoning text is only searched when
+ * `reasoning=1` is passed.
+ */
+export async function handleSearchRequest(request: Request, env: Env, identity: Identity): Promise<Response> {
+  const kv = env.CONVERSATIONS;
+  if (!kv) {
+    return errorResponse('not_configured', 'Conversation storage is not configured');
+  }
+
+  const params = new URL(request.url).searchParams;
+  const query = (params.get('q') || '').trim();
+  if (!query || parseQuery(query).length === 0) {
+    return errorResponse('validation_error', 'Invalid request: q must contain at least one word', { field: 'q' });
+  }
+  if (query.length > MAX_QUERY_CHARS) {
+    return errorResponse('validation_error', `Invalid request: q is too long. Maximum ${MAX_QUERY_CHARS} characters.`, { field: 'q' });
+  }
+
+  let limit = DEFAULT_SEARCH_LIMIT;
+  if (params.has('limit')) {
+    limit = Number(params.get('limit'));
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+      return errorResponse('validation_error', `Invalid request: limit must be between 1 and ${MAX_SEARCH_LIMIT}`, { field: 'limit' });
+    }
+  }
+
+  const hits = await searchConversations(kv, identity.id, query, {
+    includeReasoning: params.get('reasoning') === '1',
+    limit,
+  });
+  return jsonResponse({ query, terms: parseQuery(query), hits });
+}
@@ -0,0 +1,133 @@
+/**
+ * Share link routes
+ *   GET    /api/shares             (?conversationId= to filter)
+ *   POST   /api/shares
+ *   DELETE /api/shares/:id
+ *   GET    /s/:id                  (public, read-only page)
+ */
+
+import type { Env } from '../index';
+import type { Identity } from '../lib/auth';
+import { renderMessages } from '../lib/export';
+import { errorResponse, jsonResponse, readJsonObject } from '../lib/http';
+import { escapeHtml, renderPage } from '../lib/render';
+import { createShare, getShare, listShares, revokeShare, MAX_SHARE_HOURS, type ShareOptions } from '../lib/share';
+import { getConversation } from '../lib/store';
+
+// Shared pages render untrusted model output: no scripts, no outbound
+// requests besides images, and no referrer that would leak the link
+const SHARE_PAGE_HEADERS = {
+  'Content-Type': 'text/html; charset=UTF-8',
+  'Cache-Control': 'no-store',
+  'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; img-src https: data:; base-uri 'none'; form-action 'none'",
+  'Referrer-Policy': 'no-referrer',
+  'X-Robots-Tag': 'noindex',
+};
+
+/**
+ * Route a request under /api/shares. Returns null when the path or method
+ * does not match so the caller can fall through.
+ */
+export async function handleSharesRequest(
+  request: Request,
+  env: Env,
+  path: string,
+  identity: Identity
+): Promise<Response | null> {
+  const match = path.match(/^\/api\/shares(?:\/([\w-]+))?\/?$/);
+  if (!match) return null;
+
+  const kv = env.CONVERSATIONS;
+  if (!kv) {
+    return errorResponse('not_configured', 'Conversation storage is not configured');
+  }
+
+  const [, id] = match;
+  const method = request.method;
+  const owner = identity.id;
+
+  if (!id) {
+    if (method === 'GET') {
+      const conversationId = new URL(request.url).searchParams.get('conversationId');
+      const shares = await listShares(kv, owner);
+      return jsonResponse({
+        shares: conversationId ? shares.filter(share => share.conversationId === conversationId) : shares,
+      });
+    }
+
+    if (method === 'POST') {
+      const body = await readJsonObject(request);
+      if (typeof body?.conversationId !== 'string') {
+        return errorResponse('validation_error', 'Invalid request: conversationId is required', { field: 'conversationId' });
+      }
+
+      const options = parseShareOptions(body);
+      if (!options) {
+        return errorResponse('validation_error', `Invalid request: expiresInHours must be a whole number from 1 to ${MAX_SHARE_HOURS}`, { field: 'expiresInHours' });
+      }
+
+      const conversation = await getConversation(kv, owner, body.conversationId);
+      if (!conversation) {
+        return errorResponse('not_found', 'Conversation not found');
+      }
+
+      const share = await createShare(kv, owner, conversation, options);
+      return jsonResponse({ ...share, url: new URL(`/s/${share.id}`, request.url).toString() }, 201);
+    }
+
+    return null;
+  }
+
+  if (method === 'DELETE') {
+    const revoked = await revokeShare(kv, owner, id);
+    return revoked ? new Response(null, { status: 204 })
+      : errorResponse('not_found', 'Share not found');
+  }
+
+  return null;
+}
+
+/**
+ * Render the public page for a share link. Missing, revoked and expired
+ * links all get the same 404 so ids cannot be probed.
+ */
+export async function handleSharedPage(env: Env, id: string): Promise<Response> {
+  const share = env.CONVERSATIONS ? await getShare(env.CONVERSATIONS, id) : null;
+
+  if (!share) {
+    const page = renderPage({
+      title: 'Link not available',
+      subtitle: 'This shared conversation does not exist, has expired, or was revoked.',
+      body: '',
+    });
+    return new Response(page, { status: 404, headers: SHARE_PAGE_HEADERS });
+  }
+
+  const expiry = share.expiresAt ? ` · Expires ${share.expiresAt}` : '';
+  const page = renderPage({
+    title: share.title,
+    subtitle: escapeHtml(`Shared ${share.createdAt}${expiry} · Read-only`),
+    body: renderMessages(share.messages),
+  });
+  return new Response(page, { headers: SHARE_PAGE_HEADERS });
+}
+
+/**
+ * Returns the share options, or null when expiresInHours is invalid
+ */
+function parseShareOptions(body: Record<string, unknown>): ShareOptions | null {
+  const { includeReasoning, includeInstructions, expiresInHours } = body;
+
+  if (expiresInHours != null && (
+    typeof expiresInHours !== 'number' || !Number.isInteger(expiresInHours) ||
+    expiresInHours < 1 || expiresInHours > MAX_SHARE_HOURS
+  )) {
+    return null;
+  }
+
+  return {
+    includeReasoning: includeReasoning === true,
+    includeInstructions: includeInstructions === true,
+    expiresInHours: (expiresInHours as number | null | undefined) ?? null,
+  };
+}
@@ -0,0 +1,73 @@
+/**
+ * Prompt template routes
+ *   GET    /api/templates
+ *   POST   /api/templates
+ *   GET    /api/templates/:id
+ *   PUT    /api/templates/:id
+ *   DELETE /api/templates/:id
+ */
+
+import type { Env } from '../index';
+import type { Identity } from '../lib/auth';
+import { errorResponse, jsonResponse, readJson } from '../lib/http';
+import {
+  createTemplate,
+  deleteTemplate,
+  getTemplate,
+  getTemplateStore,
+  listTemplates,
+  parseTemplateFields,
+  replaceTemplate,
+} from '../lib/templates';
+
+/**
+ * Route a request under /api/templates. Returns null when the path or method
+ * does not match so the caller can fall through.
+ */
+export async function handleTemplatesRequest(
+  request: Request,
+  env: Env,
+  path: string,
+  identity: Identity
+): Promise<Response | null> {
+  const match = path.match(/^\/api\/templates(?:\/([\w-]+))?\/?$/);
+  if (!match) return null;
+
+  const store = getTemplateStore(env);
+  if (!store) {
+    return errorResponse('not_configured', 'Template storage is not configured');
+  }
+
+  const [, id] = match;
+  const method = request.method;
+
+  if (!id) {
+    if (method === 'GET') {
+      return jsonResponse({ templates: await listTemplates(store) });
+    }
+    if (method === 'POST') {
+      const fields = parseTemplateFields(await readJson(request));
+      return jsonResponse(await createTemplate(store, identity, fields), 201);
+    }
+    return null;
+  }
+
+  if (method === 'GET') {
+    const template = await getTemplate(store, id);
+    return template ? jsonResponse(template) : errorResponse('not_found', 'Template not found');
+  }
+
+  if (method === 'PUT') {
+    const fields = parseTemplateFields(await readJson(request));
+    const template = await replaceTemplate(store, identity, id, fields);
+    return template ? jsonResponse(template) : errorResponse('not_found', 'Template not found');
+  }
+
+  if (method === 'DELETE') {
+    const deleted = await deleteTemplate(store, identity, id);
+    return deleted ? new Response(null, { status: 204 })
+      : errorResponse('not_found', 'Template not found');
+  }
+
+  return null;
+}
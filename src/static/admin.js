@@ -0,0 +1,170 @@
+class AdminDashboard {
+    constructor() {
+        this.usageEndpoint = '/admin/api/usage';
+        this.rangeSelect = document.getElementById('rangeSelect');
+        this.refreshButton = document.getElementById('refreshButton');
+        this.error = document.getElementById('adminError');
+        this.note = document.getElementById('adminNote');
+        this.totalsCards = document.getElementById('totalsCards');
+        this.dailyBody = document.querySelector('#dailyTable tbody');
+        this.usersBody = document.querySelector('#usersTable tbody');
+        this.modelsBody = document.querySelector('#modelsTable tbody');
+        this.errorsBody = document.querySelector('#errorsTable tbody');
+
+        this.rangeSelect.addEventListener('change', () => this.load());
+        this.refreshButton.addEventListener('click', () => this.load());
+        this.load();
+    }
+
+    async load() {
+        this.refreshButton.disabled = true;
+        this.error.hidden = true;
+
+        try {
+            const response = await fetch(`${this.usageEndpoint}?days=${this.rangeSelect.value}`);
+            if (response.status === 401) {
+                window.location.replace('/login');
+                return;
+            }
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                const requestId = response.headers.get('X-Request-Id');
+                throw new Error(`${data?.error?.message || `HTTP ${response.status}`}${requestId ? ` (request ID ${requestId})` : ''}`);
+            }
+            this.render(data);
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load usage:', error);
+            this.error.textContent = `Could not load usage: ${error.message}`;
+            this.error.hidden = false;
+        } finally {
+            this.refreshButton.disabled = false;
+        }
+    }
+
+    render(report) {
+        this.note.textContent = report.truncated
+            ? 'Some days had more requests than the dashboard reads, so their figures are partial.'
+            : '';
+        this.note.hidden = !report.truncated;
+
+        const { totals } = report;
+        this.totalsCards.replaceChildren(
+            this.createCard('Requests', this.formatNumber(totals.requests), `${report.from} to ${report.to}`),
+            this.createCard('Error rate', this.formatPercent(totals.errorRate), `${this.formatNumber(totals.errors)} failed`),
+            this.createCard('p50 latency', this.formatLatency(totals.p50LatencyMs)),
+            this.createCard('p95 latency', this.formatLatency(totals.p95LatencyMs)),
+            this.createCard('Tokens', this.formatNumber(totals.tokens), `${this.formatNumber(totals.inputTokens)} in / ${this.formatNumber(totals.outputTokens)} out reported`)
+        );
+
+        // Newest day first, with a bar scaled to the busiest day
+        const busiest = Math.max(1, ...report.daily.map(day => day.requests));
+        this.dailyBody.replaceChildren(...report.daily.slice().reverse().map(day => this.createRow([
+            day.date,
+            this.createBar(day.requests, busiest),
+            this.formatNumber(day.errors),
+            this.formatPercent(day.errorRate),
+            this.formatLatency(day.p50LatencyMs),
+            this.formatLatency(day.p95LatencyMs),
+            this.formatNumber(day.inputTokens),
+            this.formatNumber(day.outputTokens),
+        ])));
+
+        this.fillTable(this.usersBody, report.topUsers.map(user => [
+            user.user,
+            this.formatNumber(user.requests),
+            this.formatPercent(user.errorRate),
+            this.formatNumber(user.tokens),
+        ]), 4);
+
+        this.fillTable(this.modelsBody, report.models.map(model => [
+            model.model || '(none)',
+            this.formatNumber(model.requests),
+            this.formatLatency(model.p95LatencyMs),
+            this.formatNumber(model.tokens),
+        ]), 4);
+
+        const codes = Object.entries(report.errorCodes).sort((a, b) => b[1] - a[1]);
+        this.fillTable(this.errorsBody, codes.map(([code, count]) => [code, this.formatNumber(count)]), 2);
+    }
+
+    fillTable(body, rows, columns) {
+        if (rows.length === 0) {
+            const row = document.createElement('tr');
+            const cell = document.createElement('td');
+            cell.colSpan = columns;
+            cell.className = 'admin-empty';
+            cell.textContent = 'Nothing recorded';
+            row.appendChild(cell);
+            body.replaceChildren(row);
+            return;
+        }
+        body.replaceChildren(...rows.map(cells => this.createRow(cells)));
+    }
+
+    createRow(cells) {
+        const row = document.createElement('tr');
+        for (const content of cells) {
+            const cell = document.createElement('td');
+            if (content instanceof Node) {
+                cell.appendChild(content);
+            } else {
+                cell.textContent = content;
+            }
+            row.appendChild(cell);
+        }
+        return row;
+    }
+
+    createCard(label, value, detail = '') {
+        const card = document.createElement('div');
+        card.className = 'admin-card';
+
+        const labelDiv = document.createElement('div');
+        labelDiv.className = 'admin-card-label';
+        labelDiv.textContent = label;
+
+        const valueDiv = document.createElement('div');
+        valueDiv.className = 'admin-card-value';
+        valueDiv.textContent = value;
+
+        const detailDiv = document.createElement('div');
+        detailDiv.className = 'admin-card-detail';
+        detailDiv.textContent = detail;
+
+        card.append(labelDiv, valueDiv, detailDiv);
+        return card;
+    }
+
+    createBar(value, max) {
+        const wrapper = document.createElement('div');
+        wrapper.className = 'admin-bar';
+
+        const fill = document.createElement('span');
+        fill.className = 'admin-bar-fill';
+        fill.style.width = `${(value / max) * 100}%`;
+
+        const label = document.createElement('span');
+        label.className = 'admin-bar-label';
+        label.textContent = this.formatNumber(value);
+
+        wrapper.append(fill, label);
+        return wrapper;
+    }
+
+    formatNumber(value) {
+        return value.toLocaleString();
+    }
+
+    formatPercent(rate) {
+        return `${(rate * 100).toFixed(1)}%`;
+    }
+
+    formatLatency(ms) {
+        if (ms === null) return '-';
+        return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+    }
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+    new AdminDashboard();
+});
@@ -0,0 +1,64 @@
+class LoginPage {
+    constructor() {
+        this.form = document.getElementById('loginForm');
+        this.username = document.getElementById('username');
+        this.password = document.getElementById('password');
+        this.error = document.getElementById('loginError');
+        this.button = document.getElementById('loginButton');
+
+        this.form.addEventListener('submit', (e) => this.handleSubmit(e));
+        this.redirectIfSignedIn();
+        this.username.focus();
+    }
+
+    async redirectIfSignedIn() {
+        try {
+            const response = await fetch('/api/auth/me');
+            if (response.ok) {
+                window.location.replace('/');
+            }
+        } catch (error) {
+            // Stay on the login page
+        }
+    }
+
+    async handleSubmit(e) {
+        e.preventDefault();
+        this.error.textContent = '';
+        this.button.disabled = true;
+        this.button.textContent = '...';
+
+        try {
+            const response = await fetch('/api/auth/login', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    username: this.username.value.trim(),
+                    password: this.password.value
+                })
+            });
+
+            if (response.ok) {
+                window.location.replace('/');
+                return;
+            }
+
+            const data = await response.json().catch(() => ({}));
+            this.error.textContent = data.error?.message || 'Sign-in failed. Please try again.';
+            this.password.value = '';
+            this.password.focus();
+        } catch (error) {
+            console.error('🚨 Frontend: Sign-in error:', error);
+            this.error.textContent = 'Connection failed. Check your internet connection.';
+        } finally {
+            this.button.disabled = false;
+            this.button.textContent = 'Sign in';
+        }
+    }
+}
+
+document.addEventListener('DOMContentLoaded', () => {
+    new LoginPage();
+});
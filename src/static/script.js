@@ -1,29 +1,160 @@
+// Link and image URLs allowed in rendered markdown: http(s), mailto and relative
+const SAFE_URL_PATTERN = /^(?:(?:https?|mailto):|[^a-z]|[a-z+.\-]+(?:[^a-z+.\-:]|$))/i;
+
+// The worker's budget for prior turns, which a model may lower
+const HISTORY_BUDGET_CHARS = 16000;
+
+// Share of the history budget a thread may fill before it is summarised
+const COMPACT_THRESHOLD = 0.75;
+
+// How often the status indicator asks whether the AI service is up
+const READINESS_POLL_MS = 30000;
+
+// A /readyz answer slower than this shows the service as down
+const READINESS_TIMEOUT_MS = 15000;
+
+// Indicator label for each /readyz status, plus 'offline' when the worker itself is unreachable
+const READINESS_LABELS = {
+    ready: 'Ready',
+    degraded: 'Degraded',
+    down: 'AI service down',
+    offline: 'Offline',
+};
+
 class ChatBGD {
     constructor() {
         this.apiEndpoint = '/api/chat';
-        this.messages = [];
+        this.streamEndpoint = '/api/chat/stream';
+        this.conversationsEndpoint = '/api/conversations';
+        this.modelsEndpoint = '/api/models';
+        this.presetsEndpoint = '/api/presets';
+        this.templatesEndpoint = '/api/templates';
+        this.sharesEndpoint = '/api/shares';
+        this.attachmentsEndpoint = '/api/attachments';
+        this.searchEndpoint = '/api/search';
+        // Conversation tree: every message on every branch, keyed by id
+        this.nodes = new Map();
+        this.activeLeafId = null;
+        this.persistQueue = Promise.resolve();
+        this.scriptLoads = new Map();
+        this.mermaidReady = false;
+        this.diagramCount = 0;
+        // Saves queued for a thread keep writing to it after the user moves on
+        this.thread = { conversationId: null };
+        this.models = [];
+        this.presets = [];
+        this.templates = [];
+        this.templateMatches = [];
+        this.templateIndex = 0;
+        this.activeTemplate = null;
+        this.editingTemplateId = null;
+        // Files picked for the next message: {file, status, ref} while uploading or ready
+        this.pendingAttachments = [];
+        // Terms of the last search, highlighted in the thread after a jump
+        this.searchTerms = [];
+        this.searchTimer = null;
+        this.searchVersion = 0;
+        // Latest summary of the open conversation, sent in place of the turns it covers
+        this.summary = null;
+        this.summarizing = null;
+        this.user = null;
+        this.rateLimitTimer = null;
+        this.readinessTimer = null;
+        this.abortController = null;
+        this.conversationId = null;
+        this.threadVersion = 0;
         
         this.initializeElements();
+        this.configureMarkdown();
         this.bindEvents();
         this.autoResizeTextarea();
+        this.loadCurrentUser();
+        this.loadConversationList();
+        this.loadModels();
+        this.loadPresets();
+        this.loadTemplates();
+        this.loadQuota();
+        this.pollReadiness();
     }
 
     initializeElements() {
         this.statusIndicator = document.getElementById('statusIndicator');
+        this.statusText = document.getElementById('statusText');
         this.messagesContainer = document.getElementById('messages');
         this.messageInput = document.getElementById('messageInput');
+        this.templatePicker = document.getElementById('templatePicker');
+        this.templateForm = document.getElementById('templateForm');
+        this.templateFormTitle = document.getElementById('templateFormTitle');
+        this.templateFormFields = document.getElementById('templateFormFields');
+        this.templateFormCancel = document.getElementById('templateFormCancel');
         this.sendButton = document.getElementById('sendButton');
+        this.inputSection = document.querySelector('.input-section');
+        this.attachButton = document.getElementById('attachButton');
+        this.attachmentInput = document.getElementById('attachmentInput');
+        this.attachmentChips = document.getElementById('attachmentChips');
+        this.stopButton = document.getElementById('stopButton');
         this.charCount = document.getElementById('charCount');
+        this.quotaInfo = document.getElementById('quotaInfo');
         this.loading = document.getElementById('loading');
         this.reasoningModal = document.getElementById('reasoningModal');
         this.reasoningModalClose = document.getElementById('reasoningModalClose');
         this.reasoningModalBody = document.getElementById('reasoningModalBody');
+        this.emptyStateHTML = this.messagesContainer.innerHTML;
+        
+        // Signed-in user
+        this.userSection = document.getElementById('userSection');
+        this.userName = document.getElementById('userName');
+        this.adminLink = document.getElementById('adminLink');
+        this.logoutButton = document.getElementById('logoutButton');
+        
+        // Conversation sidebar
+        this.sidebar = document.getElementById('sidebar');
+        this.sidebarToggle = document.getElementById('sidebarToggle');
+        this.newChatButton = document.getElementById('newChatButton');
+        this.conversationList = document.getElementById('conversationList');
+        this.searchInput = document.getElementById('searchInput');
+        this.searchReasoning = document.getElementById('searchReasoning');
+        this.searchResults = document.getElementById('searchResults');
+        this.exportFormat = document.getElementById('exportFormat');
+        this.exportButton = document.getElementById('exportButton');
+        this.importButton = document.getElementById('importButton');
+        this.shareButton = document.getElementById('shareButton');
+        this.summarizeButton = document.getElementById('summarizeButton');
+        this.summaryModal = document.getElementById('summaryModal');
+        this.summaryModalClose = document.getElementById('summaryModalClose');
+        this.summaryNote = document.getElementById('summaryNote');
+        this.summaryText = document.getElementById('summaryText');
+        this.summaryRefreshButton = document.getElementById('summaryRefreshButton');
+        this.templatesButton = document.getElementById('templatesButton');
+        this.templatesModal = document.getElementById('templatesModal');
+        this.templatesModalClose = document.getElementById('templatesModalClose');
+        this.templateList = document.getElementById('templateList');
+        this.templateEditor = document.getElementById('templateEditor');
+        this.templateEditorName = document.getElementById('templateEditorName');
+        this.templateEditorDescription = document.getElementById('templateEditorDescription');
+        this.templateEditorBody = document.getElementById('templateEditorBody');
+        this.templateEditorReset = document.getElementById('templateEditorReset');
+        this.templateEditorSave = document.getElementById('templateEditorSave');
+        this.shareModal = document.getElementById('shareModal');
+        this.shareModalClose = document.getElementById('shareModalClose');
+        this.shareIncludeReasoning = document.getElementById('shareIncludeReasoning');
+        this.shareIncludeInstructions = document.getElementById('shareIncludeInstructions');
+        this.shareExpiry = document.getElementById('shareExpiry');
+        this.shareCreateButton = document.getElementById('shareCreateButton');
+        this.shareList = document.getElementById('shareList');
+        this.importInput = document.getElementById('importInput');
         
         // New elements
         this.instructionsToggle = document.getElementById('instructionsToggle');
         this.instructionsContent = document.getElementById('instructionsContent');
         this.instructionsInput = document.getElementById('instructionsInput');
         this.instructionsCharCount = document.getElementById('instructionsCharCount');
+        this.presetSelect = document.getElementById('presetSelect');
+        this.presetSaveButton = document.getElementById('presetSaveButton');
+        this.presetUpdateButton = document.getElementById('presetUpdateButton');
+        this.presetDeleteButton = document.getElementById('presetDeleteButton');
+        this.modelSelect = document.getElementById('modelSelect');
+        this.reasoningSection = document.getElementById('reasoningSection');
         this.reasoningEnabled = document.getElementById('reasoningEnabled');
         this.reasoningOptions = document.getElementById('reasoningOptions');
     }
@@ -32,11 +163,98 @@ class ChatBGD {
         this.messageInput.addEventListener('input', () => this.handleMessageInput());
         this.messageInput.addEventListener('keydown', (e) => this.handleKeyDown(e));
         this.sendButton.addEventListener('click', () => this.sendMessage());
+        this.stopButton.addEventListener('click', () => this.stopGeneration());
+        
+        // Attachment events
+        this.attachButton.addEventListener('click', () => this.attachmentInput.click());
+        this.attachmentInput.addEventListener('change', () => {
+            this.addAttachments(this.attachmentInput.files);
+            this.attachmentInput.value = '';
+        });
+        this.inputSection.addEventListener('dragover', (e) => {
+            if (!e.dataTransfer.types.includes('Files')) return;
+            e.preventDefault();
+            this.inputSection.classList.add('dragging');
+        });
+        this.inputSection.addEventListener('dragleave', (e) => {
+            if (!this.inputSection.contains(e.relatedTarget)) {
+                this.inputSection.classList.remove('dragging');
+            }
+        });
+        this.inputSection.addEventListener('drop', (e) => {
+            if (!e.dataTransfer.files.length) return;
+            e.preventDefault();
+            this.inputSection.classList.remove('dragging');
+            this.addAttachments(e.dataTransfer.files);
+        });
+        
+        // Template events
+        this.messageInput.addEventListener('blur', () => this.hideTemplatePicker());
+        this.templateForm.addEventListener('submit', (e) => {
+            e.preventDefault();
+            this.insertTemplate();
+        });
+        this.templateFormCancel.addEventListener('click', () => this.hideTemplateForm());
+        this.templatesButton.addEventListener('click', () => this.showTemplatesModal());
+        this.templatesModalClose.addEventListener('click', () => this.closeTemplatesModal());
+        this.templatesModal.addEventListener('click', (e) => {
+            if (e.target === this.templatesModal) {
+                this.closeTemplatesModal();
+            }
+        });
+        this.templateEditor.addEventListener('submit', (e) => {
+            e.preventDefault();
+            this.saveTemplate();
+        });
+        this.templateEditorReset.addEventListener('click', () => this.editTemplate(null));
+        
+        this.logoutButton.addEventListener('click', () => this.logout());
+        
+        // Conversation sidebar events
+        this.newChatButton.addEventListener('click', () => this.startNewConversation());
+        this.sidebarToggle.addEventListener('click', () => this.sidebar.classList.toggle('open'));
+        this.exportButton.addEventListener('click', () => this.exportConversation());
+        this.importButton.addEventListener('click', () => this.importInput.click());
+        this.importInput.addEventListener('change', () => this.importConversation());
+        this.shareButton.addEventListener('click', () => this.showShareModal());
+        this.shareModalClose.addEventListener('click', () => this.closeShareModal());
+        this.shareCreateButton.addEventListener('click', () => this.createShareLink());
+        this.shareModal.addEventListener('click', (e) => {
+            if (e.target === this.shareModal) {
+                this.closeShareModal();
+            }
+        });
+        this.summarizeButton.addEventListener('click', () => this.showSummaryModal());
+        this.summaryModalClose.addEventListener('click', () => this.closeSummaryModal());
+        this.summaryRefreshButton.addEventListener('click', () => this.summarizeConversation());
+        this.summaryModal.addEventListener('click', (e) => {
+            if (e.target === this.summaryModal) {
+                this.closeSummaryModal();
+            }
+        });
+        
+        // Search events
+        this.searchInput.addEventListener('input', () => this.scheduleSearch());
+        this.searchReasoning.addEventListener('change', () => this.scheduleSearch());
+        this.searchInput.addEventListener('keydown', (e) => {
+            if (e.key === 'Escape') {
+                this.clearSearch();
+            }
+        });
         
         // Instructions events
         this.instructionsToggle.addEventListener('click', () => this.toggleInstructions());
         this.instructionsInput.addEventListener('input', () => this.handleInstructionsInput());
         
+        // Preset events
+        this.presetSelect.addEventListener('change', () => this.handlePresetChange());
+        this.presetSaveButton.addEventListener('click', () => this.savePresetAs());
+        this.presetUpdateButton.addEventListener('click', () => this.updatePreset());
+        this.presetDeleteButton.addEventListener('click', () => this.deletePreset());
+        
+        // Model events
+        this.modelSelect.addEventListener('change', () => this.handleModelChange());
+        
         // Reasoning events
         this.reasoningEnabled.addEventListener('change', () => this.toggleReasoningOptions());
         
@@ -53,6 +271,15 @@ class ChatBGD {
             if (e.key === 'Escape' && this.reasoningModal.classList.contains('show')) {
                 this.closeReasoningModal();
             }
+            if (e.key === 'Escape' && this.shareModal.classList.contains('show')) {
+                this.closeShareModal();
+            }
+            if (e.key === 'Escape' && this.summaryModal.classList.contains('show')) {
+                this.closeSummaryModal();
+            }
+            if (e.key === 'Escape' && this.templatesModal.classList.contains('show')) {
+                this.closeTemplatesModal();
+            }
         });
     }
 
@@ -64,6 +291,7 @@ class ChatBGD {
         this.charCount.style.color = charCount > 4000 ? '#dc2626' : '#6b7280';
         
         this.autoResizeTextarea();
+        this.updateTemplatePicker();
     }
 
     autoResizeTextarea() {
@@ -97,6 +325,152 @@ class ChatBGD {
         const textarea = this.instructionsInput;
         textarea.style.height = 'auto';
         textarea.style.height = Math.min(textarea.scrollHeight, 80) + 'px';
+
+        this.updatePresetControls();
+    }
+
+    async loadPresets(selectedId = localStorage.getItem('chatbgd.preset')) {
+        try {
+            const response = await fetch(this.presetsEndpoint);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            const data = await response.json();
+            this.presets = data.presets || [];
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load presets:', error);
+        }
+
+        this.presetSelect.innerHTML = '<option value="">Custom instructions</option>';
+        const groups = [['Team presets', this.presets.filter(preset => preset.team)], ['My presets', this.presets.filter(preset => !preset.team)]];
+        for (const [label, presets] of groups) {
+            if (presets.length === 0) continue;
+            const group = document.createElement('optgroup');
+            group.label = label;
+            for (const preset of presets) {
+                const option = document.createElement('option');
+                option.value = preset.id;
+                option.textContent = preset.name;
+                group.appendChild(option);
+            }
+            this.presetSelect.appendChild(group);
+        }
+
+        // Restore the last used preset if it still exists
+        const selected = this.presets.find(preset => preset.id === selectedId);
+        this.presetSelect.value = selected ? selected.id : '';
+        if (selected) {
+            this.applyPreset(selected);
+        } else {
+            this.updatePresetControls();
+        }
+    }
+
+    getSelectedPreset() {
+        return this.presets.find(preset => preset.id === this.presetSelect.value) || null;
+    }
+
+    // The preset only applies while its text is left as is
+    isPresetEdited(preset) {
+        return this.instructionsInput.value.trim() !== preset.instructions;
+    }
+
+    applyPreset(preset) {
+        this.instructionsInput.value = preset.instructions;
+        this.handleInstructionsInput();
+    }
+
+    handlePresetChange() {
+        const preset = this.getSelectedPreset();
+        if (preset) {
+            localStorage.setItem('chatbgd.preset', preset.id);
+            this.applyPreset(preset);
+        } else {
+            localStorage.removeItem('chatbgd.preset');
+            this.updatePresetControls();
+        }
+    }
+
+    updatePresetControls() {
+        const preset = this.getSelectedPreset();
+        const edited = preset ? this.isPresetEdited(preset) : false;
+        const own = preset && !preset.team;
+
+        this.presetSelect.classList.toggle('edited', edited);
+        this.presetSelect.title = edited ? 'Edited - these instructions will be sent without the preset' : '';
+        this.presetSaveButton.disabled = !this.instructionsInput.value.trim();
+        this.presetUpdateButton.disabled = !own || !this.instructionsInput.value.trim();
+        this.presetDeleteButton.disabled = !own;
+    }
+
+    async savePresetAs() {
+        const instructions = this.instructionsInput.value.trim();
+        if (!instructions) return;
+        const name = prompt('Preset name');
+        if (!name || !name.trim()) return;
+
+        try {
+            const response = await fetch(this.presetsEndpoint, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ name: name.trim(), instructions })
+            });
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw this.createApiError(data?.error, response.status, response.headers.get('X-Request-Id'));
+            }
+            localStorage.setItem('chatbgd.preset', data.id);
+            await this.loadPresets(data.id);
+        } catch (error) {
+            console.error('🚨 Frontend: Could not save preset:', error);
+            this.showError(this.getErrorMessage(error), error.requestId);
+        }
+    }
+
+    async updatePreset() {
+        const preset = this.getSelectedPreset();
+        if (!preset || preset.team) return;
+        const name = prompt('Preset name', preset.name);
+        if (!name || !name.trim()) return;
+
+        try {
+            const response = await fetch(`${this.presetsEndpoint}/${encodeURIComponent(preset.id)}`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ name: name.trim(), instructions: this.instructionsInput.value.trim() })
+            });
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw this.createApiError(data?.error, response.status, response.headers.get('X-Request-Id'));
+            }
+            await this.loadPresets(preset.id);
+        } catch (error) {
+            console.error('🚨 Frontend: Could not update preset:', error);
+            this.showError(this.getErrorMessage(error), error.requestId);
+        }
+    }
+
+    async deletePreset() {
+        const preset = this.getSelectedPreset();
+        if (!preset || preset.team) return;
+        if (!confirm(`Delete the "${preset.name}" preset?`)) return;
+
+        try {
+            const response = await fetch(`${this.presetsEndpoint}/${encodeURIComponent(preset.id)}`, {
+                method: 'DELETE'
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            localStorage.removeItem('chatbgd.preset');
+            await this.loadPresets(null);
+        } catch (error) {
+            console.error('🚨 Frontend: Could not delete preset:', error);
+        }
     }
 
     toggleReasoningOptions() {
@@ -109,7 +483,67 @@ class ChatBGD {
         }
     }
 
+    async loadModels() {
+        try {
+            const response = await fetch(this.modelsEndpoint);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            const data = await response.json();
+            this.models = data.models || [];
+
+            this.modelSelect.innerHTML = '';
+            for (const model of this.models) {
+                const option = document.createElement('option');
+                option.value = model.id;
+                option.textContent = model.name;
+                this.modelSelect.appendChild(option);
+            }
+
+            // Restore the last picked model if it is still allowed
+            const savedModel = localStorage.getItem('chatbgd.model');
+            const hasSavedModel = this.models.some(model => model.id === savedModel);
+            this.modelSelect.value = hasSavedModel ? savedModel : data.defaultModel;
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load models:', error);
+        }
+        this.updateReasoningAvailability();
+    }
+
+    handleModelChange() {
+        localStorage.setItem('chatbgd.model', this.modelSelect.value);
+        this.updateReasoningAvailability();
+    }
+
+    getSelectedModel() {
+        return this.getModel(this.modelSelect.value);
+    }
+
+    getModel(id) {
+        return this.models.find(model => model.id === id) || null;
+    }
+
+    updateReasoningAvailability() {
+        const model = this.getSelectedModel();
+        const supported = !model || model.supportsReasoning;
+
+        this.reasoningEnabled.disabled = !supported;
+        this.reasoningSection.classList.toggle('unsupported', !supported);
+        this.reasoningSection.title = supported ? '' : `${model.name} does not support reasoning`;
+        document.querySelectorAll('input[name="reasoningLevel"]').forEach(radio => {
+            radio.disabled = !supported;
+        });
+
+        if (!supported && this.reasoningEnabled.checked) {
+            this.reasoningEnabled.checked = false;
+            this.toggleReasoningOptions();
+        }
+    }
+
     handleKeyDown(e) {
+        if (!this.templatePicker.hidden && this.handleTemplatePickerKey(e)) {
+            return;
+        }
         if (e.key === 'Enter' && !e.shiftKey) {
             e.preventDefault();
             this.sendMessage();
@@ -118,238 +552,2065 @@ class ChatBGD {
 
     async sendMessage() {
         const message = this.messageInput.value.trim();
-        const instructions = this.instructionsInput.value.trim();
         
-        if (!message) return;
-        if (message.length > 4000) {
-            this.showError('Message too long. Maximum 4000 characters.');
-            return;
-        }
-        if (instructions.length > 1000) {
-            this.showError('Instructions too long. Maximum 1000 characters.');
+        if (this.sendButton.disabled) return;
+        if (this.pendingAttachments.some(attachment => attachment.status === 'uploading')) {
+            this.showError('Wait for attachments to finish uploading.');
             return;
         }
+        const attachments = this.pendingAttachments
+            .filter(attachment => attachment.status === 'ready')
+            .map(attachment => attachment.ref);
+        if (!message && attachments.length === 0) return;
+        if (!this.validateExchange(message)) return;
 
-        // Get reasoning settings
-        const reasoningEnabled = this.reasoningEnabled.checked;
-        const reasoningLevel = reasoningEnabled ? 
-            document.querySelector('input[name="reasoningLevel"]:checked')?.value || 'medium' : 
-            null;
-
-        // Clear input and show user message
+        // Clear input and continue the active branch
         this.messageInput.value = '';
         this.handleMessageInput();
-        this.addMessage('user', message);
-        this.setLoading(true);
+        this.pendingAttachments = [];
+        this.renderPendingAttachments();
+        await this.runExchange({ message, attachments, parentId: this.activeLeafId });
+    }
 
-        try {
-            const response = await this.callAPI(message, instructions, reasoningLevel);
-            if (response.error) {
-                this.showError(response.error);
-            } else {
-                this.addMessage('assistant', response.response, response.reasoning);
+    addAttachments(files) {
+        for (const file of files) {
+            if (this.pendingAttachments.length >= 5) {
+                this.showError('You can attach at most 5 files to a message.');
+                break;
             }
-        } catch (error) {
-            console.error('Chat error:', error);
-            this.showError(this.getErrorMessage(error));
-        } finally {
-            this.setLoading(false);
+            const attachment = { file, status: 'uploading', ref: null };
+            this.pendingAttachments.push(attachment);
+            this.uploadAttachment(attachment);
         }
+        this.renderPendingAttachments();
     }
 
-    async callAPI(message, instructions = '', reasoningLevel = null) {
-        console.log('🔍 Frontend: Starting API call');
-        console.log('🔍 Frontend: API Endpoint:', this.apiEndpoint);
-        console.log('🔍 Frontend: Message:', message);
-        console.log('🔍 Frontend: Instructions:', instructions);
-        console.log('🔍 Frontend: Reasoning Level:', reasoningLevel);
-        console.log('🔍 Frontend: Current URL:', window.location.href);
-        
-        const requestBody = { 
-            message,
-            instructions: instructions || undefined,
-            reasoningLevel: reasoningLevel || undefined
-        };
-        console.log('🔍 Frontend: Request body:', JSON.stringify(requestBody));
-        
+    async uploadAttachment(attachment) {
         try {
-            console.log('🔍 Frontend: Making fetch request...');
-            const response = await fetch(this.apiEndpoint, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json'
-                },
-                body: JSON.stringify(requestBody)
-            });
-
-            console.log('🔍 Frontend: Fetch response received');
-            console.log('🔍 Frontend: Response status:', response.status);
-            console.log('🔍 Frontend: Response ok:', response.ok);
-            console.log('🔍 Frontend: Response headers:', Object.fromEntries(response.headers.entries()));
-
+            const form = new FormData();
+            form.append('file', attachment.file);
+            const response = await fetch(this.attachmentsEndpoint, { method: 'POST', body: form });
+            const data = await response.json().catch(() => null);
             if (!response.ok) {
-                console.log('🚨 Frontend: Response not OK');
-                const responseText = await response.text();
-                console.log('🚨 Frontend: Error response body:', responseText);
-                
-                if (response.status === 429) {
-                    throw new Error('Rate limit exceeded');
-                } else if (response.status >= 500) {
-                    throw new Error('Service temporarily unavailable');
-                } else {
-                    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-                }
+                throw this.createApiError(data?.error, response.status, response.headers.get('X-Request-Id'));
             }
+            attachment.ref = data;
+            attachment.status = 'ready';
+        } catch (error) {
+            console.error('🚨 Frontend: Could not upload attachment:', error);
+            attachment.status = 'failed';
+            this.showError(this.getErrorMessage(error), error.requestId);
+        }
 
-            console.log('🔍 Frontend: Parsing JSON response...');
-            const jsonResponse = await response.json();
-            console.log('🔍 Frontend: Parsed response:', jsonResponse);
-            
-            return jsonResponse;
-            
-        } catch (fetchError) {
-            console.error('🚨 Frontend: Fetch error caught:', fetchError);
-            console.error('🚨 Frontend: Error type:', typeof fetchError);
-            console.error('🚨 Frontend: Error message:', fetchError.message);
-            console.error('🚨 Frontend: Error stack:', fetchError.stack);
-            throw fetchError;
+        // The upload may finish after the chip was removed
+        if (!this.pendingAttachments.includes(attachment)) {
+            if (attachment.ref) {
+                this.deleteAttachment(attachment.ref);
+            }
+            return;
         }
+        this.renderPendingAttachments();
     }
 
-    addMessage(type, content, reasoning = null) {
-        // Remove empty state if it exists
-        const emptyState = this.messagesContainer.querySelector('.empty-state');
-        if (emptyState) {
-            emptyState.remove();
+    removeAttachment(attachment) {
+        this.pendingAttachments = this.pendingAttachments.filter(other => other !== attachment);
+        if (attachment.ref) {
+            this.deleteAttachment(attachment.ref);
         }
+        this.renderPendingAttachments();
+    }
 
-        if (type === 'assistant') {
-            // Create message container with optional reasoning button
-            const containerDiv = document.createElement('div');
-            containerDiv.className = `message-container ${type}`;
-            
-            const messageDiv = document.createElement('div');
-            messageDiv.className = `message ${type}`;
-            messageDiv.innerHTML = this.renderMarkdown(content); // Use innerHTML for markdown
-            
-            containerDiv.appendChild(messageDiv);
-            
-            if (reasoning) {
-                const reasoningButton = document.createElement('button');
-                reasoningButton.className = 'reasoning-button';
-                reasoningButton.textContent = '?';
-                reasoningButton.title = 'Show AI reasoning';
-                reasoningButton.addEventListener('click', () => {
-                    this.showReasoningModal(reasoning);
-                });
-                containerDiv.appendChild(reasoningButton);
+    async deleteAttachment(ref) {
+        try {
+            const response = await fetch(`${this.attachmentsEndpoint}/${encodeURIComponent(ref.id)}`, { method: 'DELETE' });
+            if (!response.ok && response.status !== 404) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
             }
-            
-            this.messagesContainer.appendChild(containerDiv);
-        } else {
-            // User messages and errors - use regular message div with proper alignment
-            const messageDiv = document.createElement('div');
-            messageDiv.className = `message ${type}`;
-            messageDiv.textContent = content;
-            this.messagesContainer.appendChild(messageDiv);
+        } catch (error) {
+            console.error('🚨 Frontend: Could not delete attachment:', error);
         }
-        
-        this.scrollToBottom();
     }
 
-    showError(message) {
-        this.addMessage('error', message);
+    renderPendingAttachments() {
+        this.attachmentChips.textContent = '';
+        this.attachmentChips.hidden = this.pendingAttachments.length === 0;
+
+        for (const attachment of this.pendingAttachments) {
+            const { name, size } = attachment.file;
+            const chip = this.createAttachmentChip({ name, size });
+            chip.classList.toggle('uploading', attachment.status === 'uploading');
+            chip.classList.toggle('failed', attachment.status === 'failed');
+            chip.title = attachment.status === 'uploading' ? `Uploading ${name}…` :
+                attachment.status === 'failed' ? `${name} could not be attached` : name;
+
+            const removeButton = document.createElement('button');
+            removeButton.type = 'button';
+            removeButton.className = 'attachment-chip-remove';
+            removeButton.textContent = '×';
+            removeButton.title = 'Remove';
+            removeButton.setAttribute('aria-label', `Remove ${name}`);
+            removeButton.addEventListener('click', () => this.removeAttachment(attachment));
+            chip.appendChild(removeButton);
+
+            this.attachmentChips.appendChild(chip);
+        }
     }
 
-    setLoading(loading) {
-        this.loading.classList.toggle('show', loading);
-        this.sendButton.disabled = loading;
-        this.sendButton.textContent = loading ? '...' : 'Send';
-        
-        if (loading) {
-            this.scrollToBottom();
+    createAttachmentChip({ name, size }, href = null) {
+        const chip = document.createElement(href ? 'a' : 'span');
+        chip.className = 'attachment-chip';
+        if (href) {
+            chip.href = href;
+            chip.download = name;
+            chip.title = `Download ${name}`;
         }
+
+        const nameSpan = document.createElement('span');
+        nameSpan.className = 'attachment-chip-name';
+        nameSpan.textContent = name;
+        const sizeSpan = document.createElement('span');
+        sizeSpan.className = 'attachment-chip-size';
+        sizeSpan.textContent = this.formatBytes(size);
+
+        chip.append(nameSpan, sizeSpan);
+        return chip;
     }
 
-    scrollToBottom() {
-        setTimeout(() => {
-            this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
-        }, 10);
+    formatBytes(bytes) {
+        if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+        if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`;
+        return `${bytes} B`;
     }
 
-    getErrorMessage(error) {
-        if (error.message.includes('fetch') || error.message.includes('Failed to fetch')) {
-            return 'Connection failed. Check your internet connection.';
-        } else if (error.message.includes('Rate limit')) {
-            return 'Too many requests. Please wait a moment.';
-        } else if (error.message.includes('Service temporarily unavailable')) {
-            return 'AI service temporarily unavailable. Please try again later.';
-        } else {
-            return error.message || 'An unexpected error occurred.';
+    renderUserContent(messageDiv, content, attachments = []) {
+        messageDiv.textContent = content;
+        if (attachments.length === 0) return;
+
+        const chips = document.createElement('div');
+        chips.className = 'attachment-chips';
+        for (const attachment of attachments) {
+            chips.appendChild(this.createAttachmentChip(attachment, `${this.attachmentsEndpoint}/${encodeURIComponent(attachment.id)}`));
         }
+        messageDiv.appendChild(chips);
     }
 
-    showReasoningModal(reasoning) {
-        this.reasoningModalBody.textContent = reasoning || 'No reasoning available';
-        this.reasoningModal.classList.add('show');
-        // Prevent body scroll when modal is open
-        document.body.style.overflow = 'hidden';
+    validateExchange(message) {
+        if (message.length > 4000) {
+            this.showError('Message too long. Maximum 4000 characters.');
+            return false;
+        }
+        if (this.instructionsInput.value.trim().length > 1000) {
+            this.showError('Instructions too long. Maximum 1000 characters.');
+            return false;
+        }
+        return true;
     }
 
-    closeReasoningModal() {
-        this.reasoningModal.classList.remove('show');
-        // Restore body scroll
-        document.body.style.overflow = '';
+    getExchangeSettings() {
+        const reasoningEnabled = this.reasoningEnabled.checked;
+        const preset = this.getSelectedPreset();
+        return {
+            instructions: this.instructionsInput.value.trim() || null,
+            preset: preset && !this.isPresetEdited(preset) ? { id: preset.id, name: preset.name } : null,
+            model: this.modelSelect.value || null,
+            reasoningLevel: reasoningEnabled ?
+                document.querySelector('input[name="reasoningLevel"]:checked')?.value || 'medium' :
+                null
+        };
     }
 
-    renderMarkdown(text) {
-        // Basic markdown renderer - handles common elements
-        let html = text;
-        
-        // Escape HTML first, but preserve line breaks
-        html = html.replace(/</g, '&lt;').replace(/>/g, '&gt;');
-        
-        // Bold **text** and __text__
-        html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-        html = html.replace(/__(.*?)__/g, '<strong>$1</strong>');
-        
-        // Italic *text* and _text_
-        html = html.replace(/(?<!\*)\*([^*\n]+?)\*(?!\*)/g, '<em>$1</em>');
-        html = html.replace(/(?<!_)_([^_\n]+?)_(?!_)/g, '<em>$1</em>');
-        
-        // Code `text`
-        html = html.replace(/`([^`]+?)`/g, '<code>$1</code>');
-        
-        // Headers (# ## ###)
-        html = html.replace(/^### (.*$)/gim, '<h3>$1</h3>');
-        html = html.replace(/^## (.*$)/gim, '<h2>$1</h2>');
-        html = html.replace(/^# (.*$)/gim, '<h1>$1</h1>');
-        
-        // Links [text](url)
-        html = html.replace(/\[([^\]]+)\]\(([^)]+)\)/g, '<a href="$2" target="_blank" rel="noopener noreferrer">$1</a>');
-        
-        // Line breaks (double newlines become paragraphs)
-        html = html.replace(/\n\n/g, '</p><p>');
-        html = '<p>' + html + '</p>';
-        
-        // Single line breaks
-        html = html.replace(/\n/g, '<br>');
-        
-        // Clean up empty paragraphs
-        html = html.replace(/<p><\/p>/g, '');
-        
-        // Lists - Basic unordered lists
-        html = html.replace(/^\* (.+$)/gim, '<li>$1</li>');
-        html = html.replace(/^- (.+$)/gim, '<li>$1</li>');
-        html = html.replace(/(<li>.*<\/li>)/s, '<ul>$1</ul>');
-        
-        // Numbered lists
-        html = html.replace(/^\d+\. (.+$)/gim, '<li>$1</li>');
-        
-        // Code blocks ```
-        html = html.replace(/```([^`]*?)```/gs, '<pre><code>$1</code></pre>');
-        
-        return html;
+    /**
+     * Ask for a reply and add it to the conversation tree.
+     * New messages and edits create a user turn under `parentId`; regenerating
+     * passes the existing `userNode` and adds a sibling reply beneath it.
+     * `reasoningLevel` and `model` override the header settings when given.
+     */
+    async runExchange({ message, parentId, userNode = null, attachments = userNode?.attachments || [], reasoningLevel, model }) {
+        const settings = this.getExchangeSettings();
+        if (reasoningLevel !== undefined) {
+            settings.reasoningLevel = reasoningLevel;
+        }
+        if (model !== undefined) {
+            settings.model = model;
+        }
+        const { instructions, preset } = settings;
+        const branchParentId = userNode ? userNode.id : parentId;
+        const historyLeafId = userNode ? userNode.parentId : parentId;
+        const isBranch = branchParentId !== this.activeLeafId;
+
+        // Show the thread only up to the point the new reply branches from
+        if (isBranch) {
+            this.renderThread(branchParentId);
+        }
+        if (!userNode) {
+            const { messageDiv } = this.createUserMessage();
+            this.renderUserContent(messageDiv, message, attachments);
+            this.scrollToBottom();
+        }
+        this.setLoading(true);
+
+        this.abortController = new AbortController();
+        const threadVersion = this.threadVersion;
+        let bubble = null;
+        let text = '';
+        let reasoning = '';
+        let refusal = '';
+        let failure = null;
+        const citations = [];
+        const toolSteps = [];
+        const summary = this.summaryForPath(historyLeafId);
+
+        try {
+            await this.callStreamAPI({
+                message,
+                history: this.getHistory(historyLeafId, summary),
+                summary: summary?.content,
+                instructions: preset ? undefined : instructions || undefined,
+                presetId: preset?.id,
+                attachments: attachments.length > 0 ? attachments.map(attachment => attachment.id) : undefined,
+                reasoningLevel: settings.reasoningLevel || undefined,
+                model: settings.model || undefined
+            }, {
+                onText: (delta) => {
+                    if (!bubble) {
+                        this.loading.classList.remove('show');
+                        bubble = this.createAssistantMessage();
+                    }
+                    text += delta;
+                    this.renderAssistantContent(bubble.messageDiv, text, refusal, false);
+                    this.scrollToBottom();
+                },
+                onReasoning: (delta) => {
+                    reasoning += delta;
+                },
+                onRefusal: (delta) => {
+                    if (!bubble) {
+                        this.loading.classList.remove('show');
+                        bubble = this.createAssistantMessage();
+                    }
+                    refusal += delta;
+                    this.renderAssistantContent(bubble.messageDiv, text, refusal, false);
+                    this.scrollToBottom();
+                },
+                onCitation: (citation) => {
+                    citations.push(citation);
+                },
+                onToolCall: (call) => {
+                    if (!bubble) {
+                        this.loading.classList.remove('show');
+                        bubble = this.createAssistantMessage();
+                    }
+                    const step = { ...call, output: null, error: false };
+                    toolSteps.push(step);
+                    this.renderToolStep(bubble.messageDiv, step, toolSteps.length - 1);
+                    this.scrollToBottom();
+                },
+                onToolResult: (result) => {
+                    // Results arrive in call order; ids may repeat across rounds
+                    const index = toolSteps.findIndex(step => step.id === result.id && step.output === null);
+                    if (index === -1 || !bubble) return;
+                    toolSteps[index] = result;
+                    this.renderToolStep(bubble.messageDiv, result, index);
+                }
+            });
+        } catch (error) {
+            if (error.name !== 'AbortError') {
+                // Stopped by the user otherwise - keep whatever arrived
+                failure = error;
+            }
+        } finally {
+            this.abortController = null;
+            this.setLoading(false);
+
+            // Only exchanges with a visible reply (complete or stopped) join the tree,
+            // and only if the user hasn't switched threads meanwhile
+            const reply = text || refusal;
+            if (threadVersion === this.threadVersion) {
+                if (reply) {
+                    const turnSettings = { instructions, preset, reasoningLevel: settings.reasoningLevel, model: settings.model };
+                    const user = userNode || this.addNode({ parentId, role: 'user', content: message, reasoning: null, attachments, ...turnSettings });
+                    const assistant = this.addNode({
+                        parentId: user.id,
+                        role: 'assistant',
+                        content: reply,
+                        reasoning: reasoning || null,
+                        citations,
+                        toolSteps,
+                        ...turnSettings
+                    });
+                    this.activeLeafId = assistant.id;
+                    this.persistExchange(userNode ? [assistant] : [user, assistant], branchParentId);
+                    this.renderThread();
+                    this.compactIfNeeded();
+                } else if (isBranch) {
+                    // Nothing to keep - put the previous branch back
+                    this.renderThread();
+                }
+            }
+
+            if (failure) {
+                if (failure.retryAfter) {
+                    this.showRateLimitCountdown(failure.message, failure.retryAfter);
+                } else {
+                    console.error('Chat error:', failure);
+                    this.showError(this.getErrorMessage(failure), failure.requestId);
+                }
+            }
+        }
+    }
+
+    regenerate(node, reasoningLevel, model) {
+        if (this.abortController) return;
+        const userNode = this.nodes.get(node.parentId);
+        if (!userNode) return;
+        this.runExchange({ message: userNode.content, userNode, reasoningLevel, model });
+    }
+
+    startEdit(node, messageDiv) {
+        if (this.abortController) return;
+
+        const editor = document.createElement('textarea');
+        editor.className = 'message-editor';
+        editor.value = node.content;
+        editor.maxLength = 4000;
+
+        const saveButton = document.createElement('button');
+        saveButton.type = 'button';
+        saveButton.className = 'message-editor-button primary';
+        saveButton.textContent = 'Save & send';
+        saveButton.addEventListener('click', () => {
+            // The edited message keeps the original's attachments
+            const message = editor.value.trim();
+            const attachments = node.attachments || [];
+            if ((!message && attachments.length === 0) || this.abortController || !this.validateExchange(message)) return;
+            this.runExchange({ message, attachments, parentId: node.parentId });
+        });
+
+        const cancelButton = document.createElement('button');
+        cancelButton.type = 'button';
+        cancelButton.className = 'message-editor-button';
+        cancelButton.textContent = 'Cancel';
+        cancelButton.addEventListener('click', () => this.renderThread());
+
+        const buttons = document.createElement('div');
+        buttons.className = 'message-editor-buttons';
+        buttons.append(cancelButton, saveButton);
+
+        messageDiv.textContent = '';
+        messageDiv.classList.add('editing');
+        messageDiv.append(editor, buttons);
+        editor.focus();
+    }
+
+    newMessageId() {
+        return crypto.randomUUID();
+    }
+
+    addNode(fields) {
+        const node = { id: this.newMessageId(), ...fields };
+        this.nodes.set(node.id, node);
+        return node;
+    }
+
+    getPath(leafId = this.activeLeafId) {
+        const path = [];
+        let node = leafId ? this.nodes.get(leafId) : null;
+        while (node) {
+            path.unshift(node);
+            node = node.parentId ? this.nodes.get(node.parentId) : null;
+        }
+        return path;
+    }
+
+    getHistory(leafId, summary = null) {
+        let path = this.getPath(leafId);
+        // A summary stands in for the turns it covers
+        if (summary) {
+            path = path.slice(path.findIndex(node => node.id === summary.messageId) + 1);
+        }
+        const history = path.map(({ role, content }) => ({ role, content }));
+        return history.length > 0 ? history : undefined;
+    }
+
+    summaryForPath(leafId = this.activeLeafId) {
+        // Only a summary of an earlier point on this branch applies to it
+        if (!this.summary) return null;
+        return this.getPath(leafId).some(node => node.id === this.summary.messageId) ? this.summary : null;
+    }
+
+    getSiblings(node) {
+        return [...this.nodes.values()].filter(other => other.parentId === node.parentId && other.role === node.role);
+    }
+
+    latestLeaf(node) {
+        // Follow the newest child at each level
+        let leaf = node;
+        while (true) {
+            const children = [...this.nodes.values()].filter(child => child.parentId === leaf.id);
+            if (children.length === 0) return leaf;
+            leaf = children[children.length - 1];
+        }
+    }
+
+    switchBranch(node, direction) {
+        if (this.abortController) return;
+        const siblings = this.getSiblings(node);
+        const target = siblings[siblings.indexOf(node) + direction];
+        if (!target) return;
+
+        this.activeLeafId = this.latestLeaf(target).id;
+        this.renderThread();
+        this.persistActiveBranch();
+    }
+
+    renderThread(leafId = this.activeLeafId) {
+        const path = this.getPath(leafId);
+        this.messagesContainer.innerHTML = path.length > 0 ? '' : this.emptyStateHTML;
+
+        for (const node of path) {
+            if (node.role === 'assistant') {
+                const { containerDiv, messageDiv } = this.createAssistantMessage();
+                (node.toolSteps || []).forEach((step, index) => this.renderToolStep(messageDiv, step, index));
+                this.renderAssistantContent(messageDiv, node.content, null);
+                if (node.citations && node.citations.length > 0) {
+                    this.attachCitations(messageDiv, node.citations);
+                }
+                if (node.reasoning) {
+                    this.attachReasoningButton(containerDiv, node.reasoning);
+                }
+                containerDiv.appendChild(this.createMessageActions(node, messageDiv));
+                containerDiv.dataset.messageId = node.id;
+            } else {
+                const { containerDiv, messageDiv } = this.createUserMessage();
+                this.renderUserContent(messageDiv, node.content, node.attachments);
+                containerDiv.appendChild(this.createMessageActions(node, messageDiv));
+                containerDiv.dataset.messageId = node.id;
+            }
+        }
+
+        this.scrollToBottom();
+    }
+
+    createMessageActions(node, messageDiv) {
+        const actions = document.createElement('div');
+        actions.className = 'message-actions';
+
+        const addButton = (label, title, onClick) => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = 'message-action';
+            button.textContent = label;
+            button.title = title;
+            button.addEventListener('click', onClick);
+            actions.appendChild(button);
+            return button;
+        };
+
+        const siblings = this.getSiblings(node);
+        if (siblings.length > 1) {
+            const index = siblings.indexOf(node);
+            addButton('‹', 'Previous version', () => this.switchBranch(node, -1)).disabled = index === 0;
+            const position = document.createElement('span');
+            position.className = 'branch-position';
+            position.textContent = `${index + 1}/${siblings.length}`;
+            actions.appendChild(position);
+            addButton('›', 'Next version', () => this.switchBranch(node, 1)).disabled = index === siblings.length - 1;
+        }
+
+        if (node.role === 'user') {
+            addButton('✎', 'Edit and resend', () => this.startEdit(node, messageDiv));
+        } else {
+            addButton('↻', 'Regenerate', () => this.regenerate(node));
+
+            // Offer levels for the model that wrote this reply, and keep it when regenerating
+            const model = node.model ? this.getModel(node.model) : this.getSelectedModel();
+            if (!model || model.supportsReasoning) {
+                const levelSelect = document.createElement('select');
+                levelSelect.className = 'message-action-select';
+                levelSelect.title = 'Regenerate with a different reasoning level';
+                for (const [value, label] of [['', 'Reasoning…'], ['none', 'No reasoning'], ['low', 'Low'], ['medium', 'Medium'], ['high', 'High']]) {
+                    const option = document.createElement('option');
+                    option.value = value;
+                    option.textContent = label;
+                    levelSelect.appendChild(option);
+                }
+                levelSelect.addEventListener('change', () => {
+                    if (levelSelect.value) {
+                        this.regenerate(node, levelSelect.value === 'none' ? null : levelSelect.value, model?.id);
+                    }
+                });
+                actions.appendChild(levelSelect);
+            }
+        }
+
+        return actions;
+    }
+
+    stopGeneration() {
+        if (this.abortController) {
+            this.abortController.abort();
+        }
+    }
+
+    async callStreamAPI(requestBody, handlers = {}) {
+        const response = await fetch(this.streamEndpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(requestBody),
+            signal: this.abortController ? this.abortController.signal : undefined
+        });
+
+        this.updateQuotaFromHeaders(response.headers);
+
+        if (!response.ok) {
+            const responseText = await response.text();
+
+            let data = {};
+            try {
+                data = JSON.parse(responseText);
+            } catch (parseError) {
+                // Not an error envelope - fall back to the HTTP status
+            }
+
+            const error = this.createApiError(data.error, response.status, response.headers.get('X-Request-Id'));
+            if (error.code === 'unauthorized') {
+                this.redirectToLogin();
+            } else if (error.code === 'rate_limited') {
+                error.retryAfter = Number(response.headers.get('Retry-After')) || error.details.retryAfter || 1;
+            }
+            throw error;
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+
+            let boundary = buffer.indexOf('\n\n');
+            while (boundary !== -1) {
+                const frame = buffer.slice(0, boundary);
+                buffer = buffer.slice(boundary + 2);
+                boundary = buffer.indexOf('\n\n');
+
+                const event = this.parseSSEFrame(frame);
+                if (!event) continue;
+
+                if (event.type === 'text' && handlers.onText) {
+                    handlers.onText(event.data.delta);
+                } else if (event.type === 'reasoning' && handlers.onReasoning) {
+                    handlers.onReasoning(event.data.delta);
+                } else if (event.type === 'refusal' && handlers.onRefusal) {
+                    handlers.onRefusal(event.data.delta);
+                } else if (event.type === 'citation' && handlers.onCitation) {
+                    handlers.onCitation(event.data.citation);
+                } else if (event.type === 'tool_call' && handlers.onToolCall) {
+                    handlers.onToolCall(event.data.call);
+                } else if (event.type === 'tool_result' && handlers.onToolResult) {
+                    handlers.onToolResult(event.data.step);
+                } else if (event.type === 'error') {
+                    throw this.createApiError(event.data.error, null, response.headers.get('X-Request-Id'));
+                } else if (event.type === 'done') {
+                    return;
+                }
+            }
+        }
+    }
+
+    parseSSEFrame(frame) {
+        let type = 'message';
+        const dataLines = [];
+
+        for (const line of frame.split('\n')) {
+            if (line.startsWith('event:')) {
+                type = line.slice(6).trim();
+            } else if (line.startsWith('data:')) {
+                dataLines.push(line.slice(5).trim());
+            }
+        }
+
+        if (dataLines.length === 0) return null;
+
+        try {
+            return { type, data: JSON.parse(dataLines.join('\n')) };
+        } catch (error) {
+            console.error('🚨 Frontend: Malformed stream event:', frame);
+            return null;
+        }
+    }
+
+    async loadCurrentUser() {
+        try {
+            const response = await fetch('/api/auth/me');
+            if (response.status === 401) {
+                this.redirectToLogin();
+                return;
+            }
+            const data = await response.json();
+            // Anonymous access (auth disabled) has nothing to sign out of
+            this.user = data.user || null;
+            this.adminLink.hidden = !data.admin;
+            if (data.user && data.user.method !== 'anonymous') {
+                this.userName.textContent = data.user.name;
+                this.logoutButton.hidden = data.user.method !== 'session';
+                this.userSection.hidden = false;
+            }
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load user:', error);
+        }
+    }
+
+    async logout() {
+        try {
+            await fetch('/api/auth/logout', { method: 'POST' });
+        } finally {
+            this.redirectToLogin();
+        }
+    }
+
+    redirectToLogin() {
+        window.location.replace('/login');
+    }
+
+    async loadConversationList() {
+        try {
+            const response = await fetch(this.conversationsEndpoint);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            const data = await response.json();
+            this.renderConversationList(data.conversations || []);
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load conversations:', error);
+            this.renderConversationList([]);
+        }
+    }
+
+    renderConversationList(conversations) {
+        this.conversationList.innerHTML = '';
+        this.exportButton.disabled = !this.conversationId;
+        this.shareButton.disabled = !this.conversationId;
+        this.summarizeButton.disabled = !this.conversationId;
+
+        if (conversations.length === 0) {
+            const empty = document.createElement('li');
+            empty.className = 'conversation-list-empty';
+            empty.textContent = 'No saved conversations yet';
+            this.conversationList.appendChild(empty);
+            return;
+        }
+
+        for (const conversation of conversations) {
+            const item = document.createElement('li');
+            item.className = 'conversation-item';
+            item.classList.toggle('active', conversation.id === this.conversationId);
+            item.title = new Date(conversation.updatedAt).toLocaleString();
+            item.addEventListener('click', () => this.openConversation(conversation.id));
+
+            const title = document.createElement('span');
+            title.className = 'conversation-title';
+            title.textContent = conversation.title;
+            item.appendChild(title);
+
+            const renameButton = document.createElement('button');
+            renameButton.className = 'conversation-action';
+            renameButton.type = 'button';
+            renameButton.textContent = '✎';
+            renameButton.title = 'Rename conversation';
+            renameButton.addEventListener('click', (e) => {
+                e.stopPropagation();
+                this.renameConversation(conversation);
+            });
+            item.appendChild(renameButton);
+
+            const deleteButton = document.createElement('button');
+            deleteButton.className = 'conversation-action';
+            deleteButton.type = 'button';
+            deleteButton.textContent = '×';
+            deleteButton.title = 'Delete conversation';
+            deleteButton.addEventListener('click', (e) => {
+                e.stopPropagation();
+                this.deleteConversation(conversation);
+            });
+            item.appendChild(deleteButton);
+
+            this.conversationList.appendChild(item);
+        }
+    }
+
+    startNewConversation() {
+        this.stopGeneration();
+        this.threadVersion++;
+        this.conversationId = null;
+        this.thread = { conversationId: null };
+        this.nodes = new Map();
+        this.activeLeafId = null;
+        this.summary = null;
+        this.messagesContainer.innerHTML = this.emptyStateHTML;
+        this.sidebar.classList.remove('open');
+        this.loadConversationList();
+        this.messageInput.focus();
+    }
+
+    async openConversation(id) {
+        try {
+            const response = await fetch(`${this.conversationsEndpoint}/${encodeURIComponent(id)}`);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            const conversation = await response.json();
+
+            this.stopGeneration();
+            this.threadVersion++;
+            this.conversationId = conversation.id;
+            this.thread = { conversationId: conversation.id };
+            this.nodes = new Map(conversation.messages.map(message => [message.id, message]));
+            this.activeLeafId = conversation.activeLeafId;
+            this.summary = conversation.summary || null;
+            this.renderThread();
+
+            this.sidebar.classList.remove('open');
+            this.loadConversationList();
+            return true;
+        } catch (error) {
+            console.error('🚨 Frontend: Could not open conversation:', error);
+            this.showError('Could not load that conversation.');
+            return false;
+        }
+    }
+
+    scheduleSearch() {
+        clearTimeout(this.searchTimer);
+        const query = this.searchInput.value.trim();
+        if (!query) {
+            this.clearSearch();
+            return;
+        }
+        this.searchTimer = setTimeout(() => this.runSearch(query), 250);
+    }
+
+    clearSearch() {
+        clearTimeout(this.searchTimer);
+        // Drop any response still on its way
+        this.searchVersion++;
+        this.searchInput.value = '';
+        this.searchResults.innerHTML = '';
+        this.searchResults.hidden = true;
+        this.conversationList.hidden = false;
+    }
+
+    async runSearch(query) {
+        const version = ++this.searchVersion;
+        const params = new URLSearchParams({ q: query });
+        if (this.searchReasoning.checked) {
+            params.set('reasoning', '1');
+        }
+
+        try {
+            const response = await fetch(`${this.searchEndpoint}?${params}`);
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw this.createApiError(data?.error, response.status, response.headers.get('X-Request-Id'));
+            }
+            if (version !== this.searchVersion) return;
+            this.searchTerms = data.terms || [];
+            this.renderSearchResults(data.hits || []);
+        } catch (error) {
+            if (version !== this.searchVersion) return;
+            console.error('🚨 Frontend: Search failed:', error);
+            this.renderSearchResults([], this.getErrorMessage(error));
+        }
+    }
+
+    renderSearchResults(hits, errorMessage = null) {
+        this.searchResults.innerHTML = '';
+        this.searchResults.hidden = false;
+        this.conversationList.hidden = true;
+
+        if (hits.length === 0) {
+            const empty = document.createElement('li');
+            empty.className = 'conversation-list-empty';
+            empty.textContent = errorMessage || 'No matching messages';
+            this.searchResults.appendChild(empty);
+            return;
+        }
+
+        for (const hit of hits) {
+            const item = document.createElement('li');
+            item.className = 'search-result';
+            item.tabIndex = 0;
+            item.addEventListener('click', () => this.openSearchHit(hit));
+            item.addEventListener('keydown', (e) => {
+                if (e.key === 'Enter') {
+                    this.openSearchHit(hit);
+                }
+            });
+
+            const title = document.createElement('span');
+            title.className = 'search-result-title';
+            title.textContent = hit.conversationTitle;
+            item.appendChild(title);
+
+            if (hit.role) {
+                const source = document.createElement('span');
+                source.className = 'search-result-source';
+                source.textContent = hit.field === 'reasoning' ? 'Reasoning' : hit.role === 'user' ? 'You' : 'Assistant';
+                title.appendChild(source);
+            }
+
+            const snippet = document.createElement('span');
+            snippet.className = 'search-result-snippet';
+            let last = 0;
+            for (const [start, end] of hit.highlights) {
+                snippet.appendChild(document.createTextNode(hit.snippet.slice(last, start)));
+                const mark = document.createElement('mark');
+                mark.textContent = hit.snippet.slice(start, end);
+                snippet.appendChild(mark);
+                last = end;
+            }
+            snippet.appendChild(document.createTextNode(hit.snippet.slice(last)));
+            item.appendChild(snippet);
+
+            this.searchResults.appendChild(item);
+        }
+    }
+
+    async openSearchHit(hit) {
+        if (hit.conversationId !== this.conversationId || !this.nodes.has(hit.messageId)) {
+            if (!await this.openConversation(hit.conversationId)) return;
+        }
+        this.sidebar.classList.remove('open');
+        if (!hit.messageId || !this.nodes.has(hit.messageId)) return;
+
+        // Switch to the branch holding the message when it is not on screen
+        if (!this.getPath().some(node => node.id === hit.messageId)) {
+            if (this.abortController) return;
+            this.activeLeafId = this.latestLeaf(this.nodes.get(hit.messageId)).id;
+            this.renderThread();
+            this.persistActiveBranch();
+        }
+        this.highlightMessage(hit.messageId);
+    }
+
+    highlightMessage(messageId) {
+        const container = [...this.messagesContainer.querySelectorAll('.message-container')]
+            .find(element => element.dataset.messageId === messageId);
+        if (!container) return;
+
+        this.messagesContainer.querySelectorAll('.search-match').forEach(element => element.classList.remove('search-match'));
+        container.classList.add('search-match');
+        this.markSearchTerms(container.querySelector('.message'));
+        container.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+
+    markSearchTerms(root) {
+        if (!root || this.searchTerms.length === 0) return;
+        // Terms are letters, digits and underscores only, so they need no escaping
+        const pattern = new RegExp(this.searchTerms.join('|'), 'giu');
+
+        const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT, {
+            acceptNode: (node) => node.parentElement.closest('mark, svg, .message-actions, .tool-steps, .katex')
+                ? NodeFilter.FILTER_REJECT
+                : NodeFilter.FILTER_ACCEPT
+        });
+        const textNodes = [];
+        while (walker.nextNode()) {
+            textNodes.push(walker.currentNode);
+        }
+
+        for (const textNode of textNodes) {
+            const text = textNode.nodeValue;
+            const matches = [...text.matchAll(pattern)];
+            if (matches.length === 0) continue;
+
+            const fragment = document.createDocumentFragment();
+            let last = 0;
+            for (const match of matches) {
+                fragment.appendChild(document.createTextNode(text.slice(last, match.index)));
+                const mark = document.createElement('mark');
+                mark.className = 'search-term';
+                mark.textContent = match[0];
+                fragment.appendChild(mark);
+                last = match.index + match[0].length;
+            }
+            fragment.appendChild(document.createTextNode(text.slice(last)));
+            textNode.replaceWith(fragment);
+        }
+    }
+
+    persistExchange(nodes, parentId) {
+        const turns = nodes.map(({ id, role, content, reasoning, instructions, preset, reasoningLevel, model, attachments, toolSteps, citations }) =>
+            ({ id, role, content, reasoning, instructions, preset, reasoningLevel, model, attachments, toolSteps, citations }));
+        const thread = this.thread;
+        // Saves run one at a time so branches are stored in the order they were made
+        this.persistQueue = this.persistQueue.then(() => this.saveTurns(thread, turns, parentId));
+    }
+
+    async saveTurns(thread, turns, parentId) {
+        try {
+            if (!thread.conversationId) {
+                const response = await fetch(this.conversationsEndpoint, { method: 'POST' });
+                if (!response.ok) {
+                    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+                }
+                const conversation = await response.json();
+                thread.conversationId = conversation.id;
+                if (thread === this.thread) {
+                    this.conversationId = conversation.id;
+                }
+            }
+
+            const response = await fetch(`${this.conversationsEndpoint}/${encodeURIComponent(thread.conversationId)}/messages`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ messages: turns, parentId })
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            const conversation = await response.json();
+
+            this.loadConversationList();
+            // The worker names the conversation in the background after its first exchange
+            if (conversation.autoTitle) {
+                setTimeout(() => this.loadConversationList(), 5000);
+            }
+        } catch (error) {
+            // Saving is best-effort; the chat itself keeps working
+            console.error('🚨 Frontend: Could not save conversation:', error);
+        }
+    }
+
+    persistActiveBranch() {
+        const thread = this.thread;
+        const activeLeafId = this.activeLeafId;
+        if (!activeLeafId) return;
+
+        this.persistQueue = this.persistQueue.then(async () => {
+            if (!thread.conversationId) return;
+            try {
+                const response = await fetch(`${this.conversationsEndpoint}/${encodeURIComponent(thread.conversationId)}`, {
+                    method: 'PATCH',
+                    headers: {
+                        'Content-Type': 'application/json'
+                    },
+                    body: JSON.stringify({ activeLeafId })
+                });
+                if (!response.ok) {
+                    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+                }
+            } catch (error) {
+                console.error('🚨 Frontend: Could not save active branch:', error);
+            }
+        });
+    }
+
+    async renameConversation(conversation) {
+        const title = prompt('Rename conversation', conversation.title);
+        if (!title || !title.trim() || title.trim() === conversation.title) return;
+
+        try {
+            const response = await fetch(`${this.conversationsEndpoint}/${encodeURIComponent(conversation.id)}`, {
+                method: 'PATCH',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ title: title.trim() })
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            this.loadConversationList();
+        } catch (error) {
+            console.error('🚨 Frontend: Could not rename conversation:', error);
+        }
+    }
+
+    async exportConversation() {
+        // Let pending saves land so the export includes the latest turns
+        await this.persistQueue;
+        if (!this.conversationId) return;
+
+        const format = this.exportFormat.value;
+        const link = document.createElement('a');
+        link.href = `${this.conversationsEndpoint}/${encodeURIComponent(this.conversationId)}/export?format=${encodeURIComponent(format)}`;
+        link.download = '';
+        document.body.appendChild(link);
+        link.click();
+        link.remove();
+    }
+
+    async importConversation() {
+        const file = this.importInput.files[0];
+        this.importInput.value = '';
+        if (!file) return;
+
+        try {
+            let body;
+            try {
+                body = JSON.parse(await file.text());
+            } catch {
+                throw this.createApiError({ code: 'validation_error', message: 'That file is not a JSON export.' });
+            }
+
+            const response = await fetch(`${this.conversationsEndpoint}/import`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify(body)
+            });
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw this.createApiError(data?.error, response.status, response.headers.get('X-Request-Id'));
+            }
+
+            await this.openConversation(data.id);
+        } catch (error) {
+            console.error('🚨 Frontend: Could not import conversation:', error);
+            this.showError(this.getErrorMessage(error), error.requestId);
+        }
+    }
+
+    async loadTemplates() {
+        try {
+            const response = await fetch(this.templatesEndpoint);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            const data = await response.json();
+            this.templates = data.templates || [];
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load templates:', error);
+        }
+    }
+
+    // Typing "/name" at the start of an otherwise empty message lists matching templates
+    updateTemplatePicker() {
+        const match = this.messageInput.value.match(/^\/([\w-]*)$/);
+        if (!match || this.templates.length === 0) {
+            this.hideTemplatePicker();
+            return;
+        }
+
+        const query = match[1].toLowerCase();
+        this.templateMatches = this.templates.filter(template => template.name.includes(query));
+        this.templateIndex = 0;
+        this.renderTemplatePicker();
+    }
+
+    renderTemplatePicker() {
+        this.templatePicker.innerHTML = '';
+        if (this.templateMatches.length === 0) {
+            this.hideTemplatePicker();
+            return;
+        }
+
+        this.templateMatches.forEach((template, index) => {
+            const item = document.createElement('li');
+            item.className = 'template-option';
+            item.setAttribute('role', 'option');
+            item.setAttribute('aria-selected', String(index === this.templateIndex));
+            item.classList.toggle('selected', index === this.templateIndex);
+            // mousedown fires before the textarea loses focus
+            item.addEventListener('mousedown', (e) => {
+                e.preventDefault();
+                this.selectTemplate(template);
+            });
+
+            const name = document.createElement('span');
+            name.className = 'template-option-name';
+            name.textContent = `/${template.name}`;
+            item.appendChild(name);
+
+            if (template.description) {
+                const description = document.createElement('span');
+                description.className = 'template-option-description';
+                description.textContent = template.description;
+                item.appendChild(description);
+            }
+            this.templatePicker.appendChild(item);
+        });
+        this.templatePicker.hidden = false;
+    }
+
+    hideTemplatePicker() {
+        this.templatePicker.hidden = true;
+        this.templateMatches = [];
+    }
+
+    /**
+     * Arrow keys move through the picker, Enter or Tab picks, Escape closes.
+     * Returns true when the key was handled.
+     */
+    handleTemplatePickerKey(e) {
+        const count = this.templateMatches.length;
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            this.templateIndex = (this.templateIndex + (e.key === 'ArrowDown' ? 1 : count - 1)) % count;
+            this.renderTemplatePicker();
+        } else if ((e.key === 'Enter' && !e.shiftKey) || e.key === 'Tab') {
+            this.selectTemplate(this.templateMatches[this.templateIndex]);
+        } else if (e.key === 'Escape') {
+            this.hideTemplatePicker();
+        } else {
+            return false;
+        }
+        e.preventDefault();
+        return true;
+    }
+
+    selectTemplate(template) {
+        this.hideTemplatePicker();
+        if (template.variables.length === 0) {
+            this.setMessageText(template.body);
+            return;
+        }
+        this.showTemplateForm(template);
+    }
+
+    showTemplateForm(template) {
+        this.activeTemplate = template;
+        this.templateFormTitle.textContent = `/${template.name}`;
+        this.templateFormFields.innerHTML = '';
+
+        for (const variable of template.variables) {
+            const label = document.createElement('label');
+            label.className = 'template-form-field';
+            label.textContent = variable;
+
+            const input = document.createElement('input');
+            input.className = 'template-editor-input';
+            input.name = variable;
+            label.appendChild(input);
+            this.templateFormFields.appendChild(label);
+        }
+
+        this.templateForm.hidden = false;
+        this.templateFormFields.querySelector('input')?.focus();
+    }
+
+    hideTemplateForm() {
+        this.templateForm.hidden = true;
+        this.activeTemplate = null;
+        this.messageInput.focus();
+    }
+
+    insertTemplate() {
+        const template = this.activeTemplate;
+        if (!template) return;
+
+        const values = Object.fromEntries(new FormData(this.templateForm));
+        const text = template.body.replace(/\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g, (placeholder, name) =>
+            values[name] !== undefined ? values[name] : placeholder);
+        this.hideTemplateForm();
+        this.setMessageText(text);
+    }
+
+    setMessageText(text) {
+        this.messageInput.value = text;
+        this.handleMessageInput();
+        this.messageInput.focus();
+    }
+
+    showTemplatesModal() {
+        this.templatesModal.classList.add('show');
+        document.body.style.overflow = 'hidden';
+        this.editTemplate(null);
+        this.loadTemplates().then(() => this.renderTemplateList());
+    }
+
+    closeTemplatesModal() {
+        this.templatesModal.classList.remove('show');
+        document.body.style.overflow = '';
+    }
+
+    renderTemplateList() {
+        this.templateList.innerHTML = '';
+
+        for (const template of this.templates) {
+            const item = document.createElement('li');
+            item.className = 'share-item';
+
+            const name = document.createElement('span');
+            name.className = 'template-option-name';
+            name.textContent = `/${template.name}`;
+            item.appendChild(name);
+
+            const details = document.createElement('span');
+            details.className = 'share-details';
+            details.textContent = [template.description, `by ${template.author.name}`].filter(Boolean).join(' · ');
+            item.appendChild(details);
+
+            // Only the author can change a template
+            if (this.user && template.author.id === this.user.id) {
+                const editButton = document.createElement('button');
+                editButton.className = 'conversation-action';
+                editButton.type = 'button';
+                editButton.textContent = 'Edit';
+                editButton.addEventListener('click', () => this.editTemplate(template));
+                item.appendChild(editButton);
+
+                const deleteButton = document.createElement('button');
+                deleteButton.className = 'conversation-action';
+                deleteButton.type = 'button';
+                deleteButton.textContent = 'Delete';
+                deleteButton.addEventListener('click', () => this.deleteTemplate(template));
+                item.appendChild(deleteButton);
+            }
+
+            this.templateList.appendChild(item);
+        }
+    }
+
+    editTemplate(template) {
+        this.editingTemplateId = template ? template.id : null;
+        this.templateEditorName.value = template ? template.name : '';
+        this.templateEditorDescription.value = template ? template.description : '';
+        this.templateEditorBody.value = template ? template.body : '';
+        this.templateEditorSave.textContent = template ? 'Update template' : 'Save template';
+    }
+
+    async saveTemplate() {
+        const id = this.editingTemplateId;
+        try {
+            const response = await fetch(id ? `${this.templatesEndpoint}/${encodeURIComponent(id)}` : this.templatesEndpoint, {
+                method: id ? 'PUT' : 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    name: this.templateEditorName.value.trim(),
+                    description: this.templateEditorDescription.value.trim(),
+                    body: this.templateEditorBody.value
+                })
+            });
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw this.createApiError(data?.error, response.status, response.headers.get('X-Request-Id'));
+            }
+
+            this.editTemplate(null);
+            await this.loadTemplates();
+            this.renderTemplateList();
+        } catch (error) {
+            console.error('🚨 Frontend: Could not save template:', error);
+            alert(this.getErrorMessage(error));
+        }
+    }
+
+    async deleteTemplate(template) {
+        if (!confirm(`Delete the /${template.name} template for everyone?`)) return;
+
+        try {
+            const response = await fetch(`${this.templatesEndpoint}/${encodeURIComponent(template.id)}`, {
+                method: 'DELETE'
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            if (this.editingTemplateId === template.id) {
+                this.editTemplate(null);
+            }
+            await this.loadTemplates();
+            this.renderTemplateList();
+        } catch (error) {
+            console.error('🚨 Frontend: Could not delete template:', error);
+        }
+    }
+
+    async showShareModal() {
+        // Let pending saves land so the snapshot includes the latest turns
+        await this.persistQueue;
+        if (!this.conversationId) return;
+
+        this.shareModal.classList.add('show');
+        document.body.style.overflow = 'hidden';
+        this.loadShareLinks();
+    }
+
+    closeShareModal() {
+        this.shareModal.classList.remove('show');
+        document.body.style.overflow = '';
+    }
+
+    async showSummaryModal() {
+        // Let pending saves land so the summary covers the latest turns
+        await this.persistQueue;
+        if (!this.conversationId) return;
+
+        this.summaryModal.classList.add('show');
+        document.body.style.overflow = 'hidden';
+        if (this.summaryForPath()?.messageId === this.activeLeafId) {
+            this.renderSummary();
+        } else {
+            this.summarizeConversation();
+        }
+    }
+
+    closeSummaryModal() {
+        this.summaryModal.classList.remove('show');
+        document.body.style.overflow = '';
+    }
+
+    renderSummary(errorMessage = null) {
+        const summary = this.summaryForPath();
+        const path = this.getPath();
+        const covered = summary ? path.findIndex(node => node.id === summary.messageId) + 1 : 0;
+        const later = path.length - covered;
+
+        this.summaryText.textContent = summary ? summary.content : '';
+        this.summaryRefreshButton.disabled = Boolean(this.summarizing);
+        if (errorMessage) {
+            this.summaryNote.textContent = errorMessage;
+        } else if (this.summarizing) {
+            this.summaryNote.textContent = 'Summarising…';
+        } else if (!summary) {
+            this.summaryNote.textContent = 'This branch has no summary yet.';
+        } else {
+            this.summaryNote.textContent = `Covers ${covered} ${covered === 1 ? 'message' : 'messages'} of this branch`
+                + (later > 0 ? `; the ${later} after it are sent in full.` : '.')
+                + ' Replies are given the summary in place of the messages it covers.';
+        }
+    }
+
+    summarizeConversation(quiet = false) {
+        if (!this.summarizing) {
+            this.summarizing = this.requestSummary().then((errorMessage) => {
+                this.summarizing = null;
+                this.renderSummary(quiet ? null : errorMessage);
+            });
+            this.renderSummary();
+        }
+        return this.summarizing;
+    }
+
+    async requestSummary() {
+        // Returns an error message when the summary could not be made
+        const thread = this.thread;
+        const messageId = this.activeLeafId;
+        try {
+            await this.persistQueue;
+            if (!thread.conversationId || !messageId) return null;
+
+            const response = await fetch(`${this.conversationsEndpoint}/${encodeURIComponent(thread.conversationId)}/summary`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({ messageId })
+            });
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw this.createApiError(data?.error, response.status, response.headers.get('X-Request-Id'));
+            }
+            if (thread === this.thread) {
+                this.summary = data;
+            }
+            return null;
+        } catch (error) {
+            console.error('🚨 Frontend: Could not summarise conversation:', error);
+            return this.getErrorMessage(error);
+        }
+    }
+
+    compactIfNeeded() {
+        // Summarise in the background before old turns would start being dropped
+        const model = this.getSelectedModel();
+        if (!model || this.summarizing) return;
+
+        const budget = Math.min(HISTORY_BUDGET_CHARS, model.contextLimit * 2);
+        const summary = this.summaryForPath();
+        const history = this.getHistory(this.activeLeafId, summary) || [];
+        const chars = history.reduce((total, turn) => total + turn.content.length, summary?.content.length || 0);
+        if (chars >= budget * COMPACT_THRESHOLD) {
+            this.summarizeConversation(true);
+        }
+    }
+
+    async createShareLink() {
+        this.shareCreateButton.disabled = true;
+        try {
+            const expiresInHours = this.shareExpiry.value ? Number(this.shareExpiry.value) : null;
+            const response = await fetch(this.sharesEndpoint, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json'
+                },
+                body: JSON.stringify({
+                    conversationId: this.conversationId,
+                    includeReasoning: this.shareIncludeReasoning.checked,
+                    includeInstructions: this.shareIncludeInstructions.checked,
+                    expiresInHours
+                })
+            });
+            const data = await response.json().catch(() => null);
+            if (!response.ok) {
+                throw this.createApiError(data?.error, response.status, response.headers.get('X-Request-Id'));
+            }
+
+            await this.copyText(data.url);
+            this.loadShareLinks();
+        } catch (error) {
+            console.error('🚨 Frontend: Could not create share link:', error);
+            alert(this.getErrorMessage(error));
+        } finally {
+            this.shareCreateButton.disabled = false;
+        }
+    }
+
+    async loadShareLinks() {
+        const conversationId = this.conversationId;
+        try {
+            const response = await fetch(`${this.sharesEndpoint}?conversationId=${encodeURIComponent(conversationId)}`);
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            const data = await response.json();
+            if (conversationId === this.conversationId) {
+                this.renderShareLinks(data.shares || []);
+            }
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load share links:', error);
+        }
+    }
+
+    renderShareLinks(shares) {
+        this.shareList.innerHTML = '';
+
+        for (const share of shares) {
+            const url = new URL(`/s/${share.id}`, window.location.origin).toString();
+            const item = document.createElement('li');
+            item.className = 'share-item';
+
+            const link = document.createElement('a');
+            link.href = url;
+            link.target = '_blank';
+            link.rel = 'noopener noreferrer';
+            link.textContent = new Date(share.createdAt).toLocaleString();
+            item.appendChild(link);
+
+            const details = document.createElement('span');
+            details.className = 'share-details';
+            const included = [share.includeReasoning && 'reasoning', share.includeInstructions && 'instructions'].filter(Boolean);
+            details.textContent = [
+                included.length ? `with ${included.join(' and ')}` : 'messages only',
+                share.expiresAt ? `expires ${new Date(share.expiresAt).toLocaleString()}` : 'no expiry'
+            ].join(' · ');
+            item.appendChild(details);
+
+            const copyButton = document.createElement('button');
+            copyButton.className = 'conversation-action';
+            copyButton.type = 'button';
+            copyButton.textContent = 'Copy';
+            copyButton.addEventListener('click', () => this.copyText(url));
+            item.appendChild(copyButton);
+
+            const revokeButton = document.createElement('button');
+            revokeButton.className = 'conversation-action';
+            revokeButton.type = 'button';
+            revokeButton.textContent = 'Revoke';
+            revokeButton.addEventListener('click', () => this.revokeShareLink(share));
+            item.appendChild(revokeButton);
+
+            this.shareList.appendChild(item);
+        }
+    }
+
+    async revokeShareLink(share) {
+        if (!confirm('Revoke this link? Anyone who has it will no longer be able to open it.')) return;
+
+        try {
+            const response = await fetch(`${this.sharesEndpoint}/${encodeURIComponent(share.id)}`, {
+                method: 'DELETE'
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+            this.loadShareLinks();
+        } catch (error) {
+            console.error('🚨 Frontend: Could not revoke share link:', error);
+        }
+    }
+
+    async copyText(text) {
+        try {
+            await navigator.clipboard.writeText(text);
+        } catch {
+            // Clipboard access can be denied; let the user copy it by hand
+            prompt('Copy this link', text);
+        }
+    }
+
+    async deleteConversation(conversation) {
+        if (!confirm(`Delete "${conversation.title}"?`)) return;
+
+        try {
+            const response = await fetch(`${this.conversationsEndpoint}/${encodeURIComponent(conversation.id)}`, {
+                method: 'DELETE'
+            });
+            if (!response.ok) {
+                throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+            }
+
+            if (conversation.id === this.conversationId) {
+                this.startNewConversation();
+            } else {
+                this.loadConversationList();
+            }
+        } catch (error) {
+            console.error('🚨 Frontend: Could not delete conversation:', error);
+        }
+    }
+
+    addMessage(type, content, reasoning = null) {
+        // Remove empty state if it exists
+        const emptyState = this.messagesContainer.querySelector('.empty-state');
+        if (emptyState) {
+            emptyState.remove();
+        }
+
+        if (type === 'assistant') {
+            const { containerDiv, messageDiv } = this.createAssistantMessage();
+            this.renderAssistantContent(messageDiv, content, null);
+            
+            if (reasoning) {
+                this.attachReasoningButton(containerDiv, reasoning);
+            }
+        } else if (type === 'user') {
+            const { messageDiv } = this.createUserMessage();
+            messageDiv.textContent = content;
+        } else {
+            // Errors - use regular message div with proper alignment
+            const messageDiv = document.createElement('div');
+            messageDiv.className = `message ${type}`;
+            messageDiv.textContent = content;
+            this.messagesContainer.appendChild(messageDiv);
+        }
+        
+        this.scrollToBottom();
+    }
+
+    createUserMessage() {
+        const emptyState = this.messagesContainer.querySelector('.empty-state');
+        if (emptyState) {
+            emptyState.remove();
+        }
+
+        const containerDiv = document.createElement('div');
+        containerDiv.className = 'message-container user';
+
+        const messageDiv = document.createElement('div');
+        messageDiv.className = 'message user';
+
+        containerDiv.appendChild(messageDiv);
+        this.messagesContainer.appendChild(containerDiv);
+
+        return { containerDiv, messageDiv };
+    }
+
+    createAssistantMessage() {
+        // Remove empty state if it exists
+        const emptyState = this.messagesContainer.querySelector('.empty-state');
+        if (emptyState) {
+            emptyState.remove();
+        }
+
+        // Create message container; the reasoning button is attached separately
+        const containerDiv = document.createElement('div');
+        containerDiv.className = 'message-container assistant';
+        
+        const messageDiv = document.createElement('div');
+        messageDiv.className = 'message assistant';
+        
+        containerDiv.appendChild(messageDiv);
+        this.messagesContainer.appendChild(containerDiv);
+        
+        return { containerDiv, messageDiv };
+    }
+
+    renderAssistantContent(messageDiv, text, refusal, final = true) {
+        // Tool steps stay in place (and open or closed) while the text re-renders
+        const toolSteps = messageDiv.querySelector(':scope > .tool-steps');
+        messageDiv.innerHTML = text ? this.renderMarkdown(text) : '';
+        if (toolSteps) {
+            messageDiv.prepend(toolSteps);
+        }
+        this.enhanceCodeBlocks(messageDiv);
+        this.renderMath(messageDiv);
+        // Diagrams wait for the complete source; mid-stream they show as code
+        if (final) {
+            this.renderDiagrams(messageDiv);
+        }
+        if (refusal) {
+            // Refusals are shown verbatim, never as markdown
+            const refusalDiv = document.createElement('div');
+            refusalDiv.className = 'refusal';
+            refusalDiv.textContent = refusal;
+            messageDiv.appendChild(refusalDiv);
+        }
+    }
+
+    /**
+     * Show a tool call as a collapsible step above the reply, replacing the
+     * step at `index` once its result is in
+     */
+    renderToolStep(messageDiv, step, index) {
+        let list = messageDiv.querySelector(':scope > .tool-steps');
+        if (!list) {
+            list = document.createElement('div');
+            list.className = 'tool-steps';
+            messageDiv.prepend(list);
+        }
+
+        let details = list.children[index];
+        if (!details) {
+            details = document.createElement('details');
+            details.className = 'tool-step';
+            list.appendChild(details);
+        }
+        details.textContent = '';
+        details.classList.toggle('failed', step.error);
+
+        const summary = document.createElement('summary');
+        const name = document.createElement('span');
+        name.className = 'tool-step-name';
+        name.textContent = step.name;
+        const status = document.createElement('span');
+        status.className = 'tool-step-status';
+        status.textContent = step.output === null ? 'running…' : step.error ? 'failed' : 'done';
+        summary.append('🔧 ', name, status);
+        details.appendChild(summary);
+
+        const addSection = (label, value) => {
+            const heading = document.createElement('div');
+            heading.className = 'tool-step-label';
+            heading.textContent = label;
+            const body = document.createElement('pre');
+            body.className = 'tool-step-body';
+            body.textContent = this.formatToolValue(value);
+            details.append(heading, body);
+        };
+        addSection('Arguments', step.arguments);
+        if (step.output !== null) {
+            addSection('Result', step.output);
+        }
+    }
+
+    formatToolValue(value) {
+        // Pretty-print JSON; anything else is shown as-is
+        try {
+            return JSON.stringify(JSON.parse(value), null, 2);
+        } catch {
+            return value;
+        }
+    }
+
+    attachCitations(messageDiv, citations) {
+        const seen = new Set();
+        const list = document.createElement('ol');
+
+        for (const citation of citations) {
+            const key = citation.url || citation.fileId || citation.filename;
+            if (!key || seen.has(key)) continue;
+            seen.add(key);
+
+            const item = document.createElement('li');
+            const label = citation.title || citation.filename || citation.url || citation.fileId;
+            if (citation.url && /^https?:\/\//i.test(citation.url)) {
+                const link = document.createElement('a');
+                link.href = citation.url;
+                link.target = '_blank';
+                link.rel = 'noopener noreferrer';
+                link.textContent = label;
+                item.appendChild(link);
+            } else {
+                item.textContent = label;
+            }
+            list.appendChild(item);
+        }
+
+        if (list.children.length === 0) return;
+
+        const sources = document.createElement('div');
+        sources.className = 'citations';
+        const heading = document.createElement('div');
+        heading.className = 'citations-title';
+        heading.textContent = 'Sources';
+        sources.append(heading, list);
+        messageDiv.appendChild(sources);
+    }
+
+    attachReasoningButton(containerDiv, reasoning) {
+        const reasoningButton = document.createElement('button');
+        reasoningButton.className = 'reasoning-button';
+        reasoningButton.textContent = '?';
+        reasoningButton.title = 'Show AI reasoning';
+        reasoningButton.addEventListener('click', () => {
+            this.showReasoningModal(reasoning);
+        });
+        containerDiv.appendChild(reasoningButton);
+    }
+
+    showError(message, requestId = null) {
+        this.addMessage('error', message);
+        if (requestId) {
+            // Quoted in bug reports to find the request in the logs
+            const idSpan = document.createElement('span');
+            idSpan.className = 'error-request-id';
+            idSpan.textContent = `Request ID: ${requestId}`;
+            this.messagesContainer.lastElementChild.appendChild(idSpan);
+        }
+    }
+
+    pollReadiness() {
+        this.checkReadiness();
+        this.readinessTimer = setInterval(() => this.checkReadiness(), READINESS_POLL_MS);
+
+        // Background tabs stop polling and check again as soon as they are shown
+        document.addEventListener('visibilitychange', () => {
+            clearInterval(this.readinessTimer);
+            this.readinessTimer = null;
+            if (!document.hidden) {
+                this.checkReadiness();
+                this.readinessTimer = setInterval(() => this.checkReadiness(), READINESS_POLL_MS);
+            }
+        });
+    }
+
+    async checkReadiness() {
+        try {
+            const response = await fetch('/readyz', { cache: 'no-store', signal: AbortSignal.timeout(READINESS_TIMEOUT_MS) });
+            const data = await response.json().catch(() => null);
+            this.renderReadiness(data?.status in READINESS_LABELS ? data.status : 'down', data?.checkedAt);
+        } catch (error) {
+            this.renderReadiness(error.name === 'TimeoutError' ? 'down' : 'offline', new Date().toISOString());
+        }
+    }
+
+    renderReadiness(status, checkedAt) {
+        const label = READINESS_LABELS[status];
+        for (const element of [this.statusIndicator, this.statusText]) {
+            element.classList.toggle('connected', status === 'ready');
+            element.classList.toggle('degraded', status === 'degraded');
+            element.classList.toggle('down', status === 'down' || status === 'offline');
+        }
+        this.statusText.textContent = label;
+
+        const checked = checkedAt ? new Date(checkedAt) : null;
+        const title = checked && !isNaN(checked) ? `${label} - last checked ${checked.toLocaleTimeString()}` : label;
+        this.statusIndicator.title = title;
+        this.statusText.title = title;
+    }
+
+    async loadQuota() {
+        try {
+            const response = await fetch('/api/quota');
+            if (!response.ok) return;
+            const data = await response.json();
+            if (data.quota) {
+                this.renderQuota(data.quota.daily.messagesRemaining, data.quota.daily.messageLimit);
+            }
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load quota:', error);
+        }
+    }
+
+    updateQuotaFromHeaders(headers) {
+        const remaining = headers.get('X-RateLimit-Daily-Messages-Remaining');
+        if (remaining !== null) {
+            this.renderQuota(Number(remaining));
+        }
+    }
+
+    renderQuota(messagesRemaining, messageLimit = null) {
+        if (messageLimit !== null) {
+            this.quotaMessageLimit = messageLimit;
+        }
+        this.quotaInfo.textContent = `${messagesRemaining} message${messagesRemaining === 1 ? '' : 's'} left today`;
+        this.quotaInfo.classList.toggle('low', this.quotaMessageLimit ? messagesRemaining <= this.quotaMessageLimit * 0.1 : false);
+    }
+
+    formatDuration(seconds) {
+        if (seconds < 60) return `${seconds}s`;
+        const hours = Math.floor(seconds / 3600);
+        const minutes = Math.floor((seconds % 3600) / 60);
+        if (hours === 0) return `${minutes}m ${seconds % 60}s`;
+        return `${hours}h ${minutes}m`;
+    }
+
+    showRateLimitCountdown(message, retryAfter) {
+        clearInterval(this.rateLimitTimer);
+
+        this.addMessage('error', message);
+        const bubble = this.messagesContainer.lastElementChild;
+        const deadline = Date.now() + retryAfter * 1000;
+
+        const tick = () => {
+            const secondsLeft = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+            if (secondsLeft === 0) {
+                clearInterval(this.rateLimitTimer);
+                this.rateLimitTimer = null;
+                bubble.textContent = `${message} You can send again now.`;
+                this.sendButton.disabled = false;
+                return;
+            }
+            bubble.textContent = `${message} Try again in ${this.formatDuration(secondsLeft)}.`;
+            this.sendButton.disabled = true;
+        };
+
+        tick();
+        this.rateLimitTimer = setInterval(tick, 1000);
+    }
+
+    setLoading(loading) {
+        this.loading.classList.toggle('show', loading);
+        this.sendButton.disabled = loading || this.rateLimitTimer !== null;
+        this.sendButton.textContent = loading ? '...' : 'Send';
+        this.stopButton.classList.toggle('show', loading);
+        
+        if (loading) {
+            this.scrollToBottom();
+        }
+    }
+
+    scrollToBottom() {
+        setTimeout(() => {
+            this.messagesContainer.scrollTop = this.messagesContainer.scrollHeight;
+        }, 10);
+    }
+
+    createApiError(detail, status = null, requestId = null) {
+        // detail is the {code, message, retryable, details} object from an error envelope
+        const error = new Error(detail?.message || (status ? `HTTP ${status}` : 'An unexpected error occurred'));
+        error.code = detail?.code || (status === 401 ? 'unauthorized' : status >= 500 ? 'upstream_server_error' : 'unknown');
+        error.retryable = Boolean(detail?.retryable);
+        error.details = detail?.details || {};
+        error.requestId = requestId;
+        return error;
+    }
+
+    getErrorMessage(error) {
+        switch (error.code) {
+            case 'validation_error':
+                return error.message;
+            case 'unauthorized':
+                return 'Session expired. Please sign in again.';
+            case 'rate_limited':
+            case 'upstream_rate_limited':
+                return 'Too many requests. Please wait a moment.';
+            case 'upstream_timeout':
+                return 'The AI service took too long to respond. Please try again.';
+            case 'upstream_unavailable':
+                return 'The AI service is down right now. Please try again in a minute.';
+            case 'upstream_client_error':
+                return 'The AI service could not handle this request. Try rephrasing it or choosing another model.';
+            case 'upstream_server_error':
+            case 'upstream_malformed':
+                return 'AI service temporarily unavailable. Please try again later.';
+        }
+
+        // fetch rejects with a TypeError when the network request itself fails
+        if (error instanceof TypeError) {
+            return 'Connection failed. Check your internet connection.';
+        }
+        return error.message || 'An unexpected error occurred.';
+    }
+
+    showReasoningModal(reasoning) {
+        this.reasoningModalBody.textContent = reasoning || 'No reasoning available';
+        this.reasoningModal.classList.add('show');
+        // Prevent body scroll when modal is open
+        document.body.style.overflow = 'hidden';
+    }
+
+    closeReasoningModal() {
+        this.reasoningModal.classList.remove('show');
+        // Restore body scroll
+        document.body.style.overflow = '';
+    }
+
+    configureMarkdown() {
+        if (!window.DOMPurify || !window.marked) return;
+
+        // Links from the model open in a new tab without access to this window
+        DOMPurify.addHook('afterSanitizeAttributes', (node) => {
+            if (node.tagName === 'A' && node.hasAttribute('href')) {
+                node.setAttribute('target', '_blank');
+                node.setAttribute('rel', 'noopener noreferrer');
+            }
+        });
+
+        // Keep $...$ and $$...$$ away from the markdown rules; renderMath typesets them later
+        const mathPlaceholder = (tex, display, tag) => {
+            const source = this.escapeHtml(tex);
+            return `<${tag} class="math ${display ? 'math-display' : 'math-inline'}" data-tex="${source}">${source}</${tag}>`;
+        };
+        marked.use({
+            extensions: [
+                {
+                    name: 'mathBlock',
+                    level: 'block',
+                    start: (src) => src.match(/^\$\$/m)?.index,
+                    tokenizer: (src) => {
+                        const match = /^\$\$([\s\S]+?)\$\$[ \t]*(?:\n|$)/.exec(src);
+                        if (match) return { type: 'mathBlock', raw: match[0], tex: match[1].trim() };
+                    },
+                    renderer: (token) => mathPlaceholder(token.tex, true, 'div')
+                },
+                {
+                    name: 'mathInline',
+                    level: 'inline',
+                    start: (src) => src.indexOf('$'),
+                    tokenizer: (src) => {
+                        // Pandoc rules: no space inside the dollars, no digit right after the
+                        // closing one, so prices like "$5 and $10" stay plain text
+                        const match = /^\$\$([^$]+?)\$\$|^\$(?![\s$])([^$\n]+?)(?<!\s)\$(?!\d)/.exec(src);
+                        if (match) return { type: 'mathInline', raw: match[0], tex: match[1] ?? match[2], display: match[1] !== undefined };
+                    },
+                    renderer: (token) => mathPlaceholder(token.tex, token.display, 'span')
+                }
+            ]
+        });
+    }
+
+    escapeHtml(text) {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+
+    loadScript(src) {
+        // Each library is fetched at most once, on first use
+        if (!this.scriptLoads.has(src)) {
+            this.scriptLoads.set(src, new Promise((resolve, reject) => {
+                const script = document.createElement('script');
+                script.src = src;
+                script.onload = resolve;
+                script.onerror = () => {
+                    this.scriptLoads.delete(src);
+                    reject(new Error(`Could not load ${src}`));
+                };
+                document.head.appendChild(script);
+            }));
+        }
+        return this.scriptLoads.get(src);
+    }
+
+    async renderMath(container) {
+        const elements = container.querySelectorAll('.math[data-tex]');
+        if (elements.length === 0) return;
+
+        try {
+            await this.loadScript('/vendor/katex.js');
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load math renderer:', error);
+            return;
+        }
+
+        for (const element of elements) {
+            // MathML output is drawn by the browser, so no KaTeX fonts need to be served
+            katex.render(element.dataset.tex, element, {
+                displayMode: element.classList.contains('math-display'),
+                output: 'mathml',
+                throwOnError: false
+            });
+            element.removeAttribute('data-tex');
+        }
+    }
+
+    async renderDiagrams(container) {
+        const blocks = container.querySelectorAll('pre > code.language-mermaid');
+        if (blocks.length === 0) return;
+
+        try {
+            await this.loadScript('/vendor/mermaid.js');
+        } catch (error) {
+            console.error('🚨 Frontend: Could not load diagram renderer:', error);
+            return;
+        }
+
+        if (!this.mermaidReady) {
+            mermaid.initialize({ startOnLoad: false, securityLevel: 'strict', theme: 'neutral' });
+            this.mermaidReady = true;
+        }
+
+        for (const code of blocks) {
+            const pre = code.parentElement;
+            try {
+                const { svg } = await mermaid.render(`mermaid-diagram-${++this.diagramCount}`, code.textContent);
+                const diagram = document.createElement('div');
+                diagram.className = 'mermaid-diagram';
+                diagram.innerHTML = svg;
+                pre.replaceWith(diagram);
+            } catch (error) {
+                // Leave the source visible so the user can see what went wrong
+                console.error('🚨 Frontend: Could not render diagram:', error);
+                pre.classList.add('diagram-error');
+                pre.title = 'This diagram could not be rendered';
+            }
+        }
+    }
+
+    renderMarkdown(text) {
+        if (!window.marked || !window.DOMPurify) {
+            // Renderer failed to load - show the raw text safely
+            const fallback = document.createElement('div');
+            fallback.textContent = text;
+            return fallback.innerHTML.replace(/\n/g, '<br>');
+        }
+
+        const html = marked.parse(text, { gfm: true, breaks: true });
+        return DOMPurify.sanitize(html, {
+            ALLOWED_URI_REGEXP: SAFE_URL_PATTERN,
+            FORBID_TAGS: ['style', 'form', 'input', 'button', 'textarea', 'select'],
+        });
+    }
+
+    enhanceCodeBlocks(container) {
+        for (const code of container.querySelectorAll('pre > code')) {
+            const pre = code.parentElement;
+            const language = [...code.classList].find(name => name.startsWith('language-'))?.slice(9);
+
+            if (window.hljs && language !== 'mermaid' && (!language || hljs.getLanguage(language))) {
+                hljs.highlightElement(code);
+            }
+
+            if (language) {
+                const label = document.createElement('span');
+                label.className = 'code-language';
+                label.textContent = language;
+                pre.appendChild(label);
+            }
+
+            const copyButton = document.createElement('button');
+            copyButton.type = 'button';
+            copyButton.className = 'copy-code-button';
+            copyButton.textContent = 'Copy';
+            copyButton.title = 'Copy code';
+            copyButton.addEventListener('click', async () => {
+                try {
+                    await navigator.clipboard.writeText(code.textContent);
+                    copyButton.textContent = 'Copied!';
+                } catch (error) {
+                    console.error('🚨 Frontend: Could not copy code:', error);
+                    copyButton.textContent = 'Failed';
+                }
+                setTimeout(() => {
+                    copyButton.textContent = 'Copy';
+                }, 1500);
+            });
+            pre.appendChild(copyButton);
+        }
     }
 }
 
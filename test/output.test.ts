@@ -0,0 +1,20 @@
+/// <reference types="vite/client" />
+import { describe, expect, it } from 'vitest';
+import { parseChatCompletionOutput, parseResponsesOutput, type ParsedOutput } from '../src/lib/output';
+
+interface OutputFixture {
+  description: string;
+  // Which entry point the body goes through
+  parser: 'responses' | 'chat';
+  body: unknown;
+  expected: ParsedOutput;
+}
+
+const fixtures = import.meta.glob<OutputFixture>('./fixtures/output/*.json', { eager: true, import: 'default' });
+
+describe('upstream output parsing', () => {
+  it.each(Object.entries(fixtures))('%s', (_, fixture) => {
+    const parse = fixture.parser === 'chat' ? parseChatCompletionOutput : parseResponsesOutput;
+    expect(parse(fixture.body), fixture.description).toEqual(fixture.expected);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseMessage, MAX_STORED_CONTENT_CHARS } from '../src/lib/store';
+import { MAX_STORED_TOOL_STEPS } from '../src/lib/tools';
+import { MAX_STORED_CITATIONS } from '../src/lib/output';
+
+const step = (index: number, size: number = 10) => ({
+  id: `call_${index}`,
+  name: 'calculator',
+  arguments: 'a'.repeat(size),
+  output: 'b'.repeat(size),
+  error: false,
+});
+
+describe('parseMessage size limits', () => {
+  it('cuts long content short instead of refusing it', () => {
+    const message = parseMessage({ role: 'assistant', content: 'x'.repeat(MAX_STORED_CONTENT_CHARS + 500) });
+    expect(message).not.toBeNull();
+    expect(message!.content).toHaveLength(MAX_STORED_CONTENT_CHARS);
+    expect(message!.content.endsWith('[truncated]')).toBe(true);
+  });
+
+  it('cuts long tool arguments and outputs short', () => {
+    const message = parseMessage({ role: 'assistant', content: 'done', toolSteps: [step(0, 20000)] });
+    expect(message).not.toBeNull();
+    const [saved] = message!.toolSteps;
+    expect(saved.arguments.length).toBeLessThanOrEqual(10000);
+    expect(saved.output.length).toBeLessThanOrEqual(10000);
+    expect(saved.output.endsWith('[truncated]')).toBe(true);
+  });
+
+  it('keeps only the first tool steps and citations', () => {
+    const toolSteps = Array.from({ length: MAX_STORED_TOOL_STEPS + 5 }, (_, index) => step(index));
+    const citations = Array.from({ length: MAX_STORED_CITATIONS + 5 }, (_, index) => ({ type: 'url_citation', url: `https://example.com/${index}` }));
+    const message = parseMessage({ role: 'assistant', content: 'done', toolSteps, citations });
+    expect(message!.toolSteps).toHaveLength(MAX_STORED_TOOL_STEPS);
+    expect(message!.toolSteps[0].id).toBe('call_0');
+    expect(message!.citations).toHaveLength(MAX_STORED_CITATIONS);
+  });
+
+  it('leaves content within the limit untouched', () => {
+    expect(parseMessage({ role: 'user', content: 'hello' })!.content).toBe('hello');
+  });
+
+  it('still refuses malformed messages', () => {
+    expect(parseMessage({ role: 'assistant', content: 42 })).toBeNull();
+    expect(parseMessage({ role: 'assistant', content: 'done', toolSteps: 'nope' })).toBeNull();
+  });
+});
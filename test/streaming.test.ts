@@ -0,0 +1,38 @@
+/// <reference types="vite/client" />
+import { describe, expect, it } from 'vitest';
+import { upstreamEvents, type ChatStreamEvent } from '../src/lib/streaming';
+
+interface StreamingFixture {
+  description: string;
+  // Defaults to text/event-stream
+  contentType?: string;
+  lineEnding?: string;
+  // SSE frames; string data is sent as is, anything else as JSON
+  frames?: { event?: string; data: unknown }[];
+  // Whole body, for non-SSE replies
+  body?: unknown;
+  expected: ChatStreamEvent[];
+}
+
+const fixtures = import.meta.glob<StreamingFixture>('./fixtures/streaming/*.json', { eager: true, import: 'default' });
+
+function upstreamResponse(fixture: StreamingFixture): Response {
+  const newline = fixture.lineEnding ?? '\n';
+  const body = fixture.frames
+    ? fixture.frames.map(frame => {
+      const data = typeof frame.data === 'string' ? frame.data : JSON.stringify(frame.data);
+      return (frame.event ? `event: ${frame.event}${newline}` : '') + `data: ${data}${newline}${newline}`;
+    }).join('')
+    : JSON.stringify(fixture.body);
+  return new Response(body, { headers: { 'Content-Type': fixture.contentType ?? 'text/event-stream' } });
+}
+
+describe('upstream stream translation', () => {
+  it.each(Object.entries(fixtures))('%s', async (_, fixture) => {
+    const events: ChatStreamEvent[] = [];
+    for await (const event of upstreamEvents(upstreamResponse(fixture))) {
+      events.push(event);
+    }
+    expect(events, fixture.description).toEqual(fixture.expected);
+  });
+});
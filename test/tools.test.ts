@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateExpression } from '../src/lib/tools';
+
+describe('calculator expressions', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['10 - 4 - 3', 3],
+    ['7 % 4 * 2', 6],
+    ['2 ^ 3 ^ 2', 512],
+    ['2 ** 3', 8],
+    ['-2 ^ 2', -4],
+    ['-2 ** 2', -4],
+    ['(-2) ^ 2', 4],
+    ['2 ^ -1', 0.5],
+    ['-2 ^ -2', -0.25],
+    ['3 * -2 ^ 2', -12],
+    ['--3', 3],
+    ['2 * 3 ^ 2', 18],
+    ['max(1, -2 ^ 2, 3)', 3],
+  ])('%s = %s', (expression, expected) => {
+    expect(evaluateExpression(expression)).toBe(expected);
+  });
+
+  it.each(['1 +', '2 ^', '(1', 'foo(1)', '1 / 0'])('rejects %s', expression => {
+    expect(() => evaluateExpression(expression)).toThrow();
+  });
+});